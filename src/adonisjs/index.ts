@@ -1,7 +1,19 @@
 import type { HttpContext } from "@adonisjs/core/http";
 
-import type { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
-export type { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
+import type {
+  ApitallyConfig,
+  ApitallyConsumer,
+  RequestTagsInput,
+} from "../common/types.js";
+export type {
+  ApitallyConfig,
+  ApitallyConsumer,
+  ApitallyTransport,
+  ClientStatus,
+  RequestTagsInput,
+  TransportOutcome,
+  ValidationErrorExtractor,
+} from "../common/types.js";
 export { configure } from "./configure.js";
 
 export function defineConfig(config: ApitallyConfig) {
@@ -20,3 +32,7 @@ export function setConsumer(
 ) {
   ctx.apitallyConsumer = consumer || undefined;
 }
+
+export function setRequestTags(ctx: HttpContext, tags: RequestTagsInput) {
+  ctx.apitallyRequestTags = { ...ctx.apitallyRequestTags, ...tags };
+}
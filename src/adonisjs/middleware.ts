@@ -5,15 +5,15 @@ import type { OutgoingHttpHeaders } from "node:http";
 import { performance } from "node:perf_hooks";
 
 import type { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
 import { parseContentLength } from "../common/headers.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertHeaders } from "../common/requestLogger.js";
-import type { ApitallyConsumer } from "../common/types.js";
+import type { ApitallyConsumer, RequestTagsInput } from "../common/types.js";
 
 declare module "@adonisjs/core/http" {
   interface HttpContext {
     apitallyConsumer?: ApitallyConsumer | string;
+    apitallyRequestTags?: RequestTagsInput;
     apitallyError?: Error;
   }
 }
@@ -39,12 +39,14 @@ export default class ApitallyMiddleware {
       const startTime = performance.now();
 
       const spanHandle = client.spanCollector.startSpan();
-      await spanHandle.runInContext(next);
+      const outboundHandle = client.outboundRequestCollector.start();
+      await spanHandle.runInContext(() => outboundHandle.runInContext(next));
 
       const responseTime = performance.now() - startTime;
       spanHandle.setName(`${ctx.request.method()} ${path}`);
       const spans = spanHandle.end();
       const traceId = spanHandle.traceId;
+      const outboundRequests = outboundHandle.end();
 
       const requestSize = parseContentLength(
         ctx.request.header("content-length"),
@@ -55,9 +57,13 @@ export default class ApitallyMiddleware {
       let responseSize: number | undefined;
       let responseContentType: string | undefined;
 
-      const consumer = ctx.apitallyConsumer
-        ? consumerFromStringOrObject(ctx.apitallyConsumer)
-        : null;
+      const consumer = client.consumerRegistry.getConsumer(
+        ctx.apitallyConsumer,
+        () => ({
+          method: ctx.request.method(),
+          headers: ctx.request.headers(),
+        }),
+      );
       client.consumerRegistry.addOrUpdateConsumer(consumer);
 
       const onWriteHead = (
@@ -78,26 +84,29 @@ export default class ApitallyMiddleware {
             responseTime,
             requestSize,
             responseSize,
+            tags: ctx.apitallyRequestTags,
           });
+          client.outboundRequestCounter.addOutboundRequests(
+            {
+              consumer: consumer?.identifier,
+              method: ctx.request.method(),
+              path,
+            },
+            outboundRequests,
+          );
 
           if (
-            responseStatus === 422 &&
-            ctx.apitallyError &&
-            "code" in ctx.apitallyError &&
-            "messages" in ctx.apitallyError &&
-            ctx.apitallyError.code === "E_VALIDATION_ERROR" &&
-            Array.isArray(ctx.apitallyError.messages)
+            (responseStatus === 400 || responseStatus === 422) &&
+            ctx.apitallyError
           ) {
-            ctx.apitallyError.messages.forEach((message) => {
-              client.validationErrorCounter.addValidationError({
+            client.validationErrorCounter.addValidationErrorsFromBody(
+              {
                 consumer: consumer?.identifier,
                 method: ctx.request.method(),
                 path,
-                loc: message.field,
-                msg: message.message,
-                type: message.rule,
-              });
-            });
+              },
+              ctx.apitallyError,
+            );
           }
 
           if (responseStatus === 500 && ctx.apitallyError) {
@@ -158,6 +167,7 @@ export default class ApitallyMiddleware {
             logs,
             spans,
             traceId,
+            outboundRequests,
           );
         };
 
@@ -30,13 +30,12 @@ export default class ApitallyProvider {
 
   async start() {
     const client = await this.app.container.make("apitallyClient");
-    if (client.requestLogger.config.captureLogs) {
-      const logsContext = await this.app.container.make("apitallyLogsContext");
-      const logger = await this.app.container.make("logger");
-
+    const logsContext = await this.app.container.make("apitallyLogsContext");
+    const logger = await this.app.container.make("logger");
+    client.whenCaptureLogsEnabled(() => {
       patchPinoLogger(logger.pino, logsContext);
       patchConsole(logsContext);
-    }
+    });
   }
 
   async ready() {
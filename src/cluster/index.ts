@@ -0,0 +1,15 @@
+import { ApitallyClient } from "../common/client.js";
+import type { ApitallyConfig } from "../common/types.js";
+
+export { flush, getClient } from "../common/client.js";
+export type { ApitallyConfig, ClientStatus } from "../common/types.js";
+
+/**
+ * Creates the client in the primary process of a Node cluster. Workers that
+ * set `cluster: true` in their config forward their data to this client, so
+ * the host is synced to the Hub as a single instance. Request logging must be
+ * enabled here for forwarded request logs to be kept.
+ */
+export function setupClusterPrimary(config: ApitallyConfig) {
+  return new ApitallyClient({ ...config, cluster: true });
+}
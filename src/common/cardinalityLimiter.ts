@@ -0,0 +1,157 @@
+import { CardinalityLimits, ConsumerMethodPath, RequestTags } from "./types.js";
+
+export const OVERFLOW_BUCKET = "__other__";
+
+const DEFAULT_LIMITS: CardinalityLimits = {
+  maxConsumers: 5000,
+  maxPaths: 1000,
+  maxTagSets: 100,
+  maxMetrics: 100,
+  maxKeys: 10000,
+};
+
+/**
+ * Caps the number of distinct consumers, paths, tag combinations and metric
+ * names a counter tracks between syncs, as well as the number of distinct
+ * items overall. Items beyond the caps are aggregated in the overflow bucket.
+ */
+export default class CardinalityLimiter {
+  public limits: CardinalityLimits;
+  private consumers: Set<string>;
+  private paths: Set<string>;
+  private tagSets: Set<string>;
+  private metricNames: Set<string>;
+  private keys: Set<string>;
+  private overflowedKeys: Set<string>;
+
+  constructor(limits?: Partial<CardinalityLimits>) {
+    this.limits = { ...DEFAULT_LIMITS, ...limits };
+    this.consumers = new Set();
+    this.paths = new Set();
+    this.tagSets = new Set();
+    this.metricNames = new Set();
+    this.keys = new Set();
+    this.overflowedKeys = new Set();
+  }
+
+  limit<T extends ConsumerMethodPath & { tags?: RequestTags }>(item: T): T {
+    let overflowed = false;
+    let consumer = item.consumer;
+    let path = item.path;
+    let tags = item.tags;
+
+    if (consumer && !this.consumers.has(consumer)) {
+      if (this.consumers.size < this.limits.maxConsumers) {
+        this.consumers.add(consumer);
+      } else {
+        consumer = OVERFLOW_BUCKET;
+        overflowed = true;
+      }
+    }
+
+    const pathKey = `${item.method.toUpperCase()} ${path}`;
+    if (!this.paths.has(pathKey)) {
+      if (this.paths.size < this.limits.maxPaths) {
+        this.paths.add(pathKey);
+      } else {
+        path = OVERFLOW_BUCKET;
+        overflowed = true;
+      }
+    }
+
+    const limitedTags = this.limitTags(tags);
+    if (limitedTags !== tags) {
+      tags = limitedTags;
+      overflowed = true;
+    }
+
+    if (!overflowed) {
+      return item;
+    }
+    this.overflowedKeys.add(
+      `item:${item.consumer ?? ""}:${pathKey}:${JSON.stringify(item.tags ?? null)}`,
+    );
+    return { ...item, consumer, path, tags };
+  }
+
+  limitMetric(name: string, tags?: RequestTags) {
+    const metricKey = `metric:${name}:${JSON.stringify(tags ?? null)}`;
+    let overflowed = false;
+
+    if (!this.metricNames.has(name)) {
+      if (this.metricNames.size < this.limits.maxMetrics) {
+        this.metricNames.add(name);
+      } else {
+        name = OVERFLOW_BUCKET;
+        overflowed = true;
+      }
+    }
+
+    const limitedTags = this.limitTags(tags);
+    if (limitedTags !== tags) {
+      tags = limitedTags;
+      overflowed = true;
+    }
+
+    if (overflowed) {
+      this.overflowedKeys.add(metricKey);
+    }
+    return { name, tags };
+  }
+
+  /**
+   * Caps the number of distinct keys, as the caps per field still allow for
+   * their product. Once the cap is reached, items with new keys are replaced
+   * by their overflow item, whose fields must come from a small, fixed set.
+   * Returns the item and its key.
+   */
+  limitKey<T>(
+    item: T,
+    getKey: (item: T) => string,
+    getOverflowItem: (item: T) => T,
+  ): [T, string] {
+    const key = getKey(item);
+    if (this.keys.has(key)) {
+      return [item, key];
+    }
+    if (this.keys.size < this.limits.maxKeys) {
+      this.keys.add(key);
+      return [item, key];
+    }
+    this.overflowedKeys.add(`key:${key}`);
+    const overflowItem = getOverflowItem(item);
+    return [overflowItem, getKey(overflowItem)];
+  }
+
+  private limitTags(tags?: RequestTags) {
+    if (!tags) {
+      return tags;
+    }
+    const tagsKey = JSON.stringify(tags);
+    if (this.tagSets.has(tagsKey)) {
+      return tags;
+    }
+    if (this.tagSets.size < this.limits.maxTagSets) {
+      this.tagSets.add(tagsKey);
+      return tags;
+    }
+    return Object.fromEntries(
+      Object.keys(tags).map((key) => [key, OVERFLOW_BUCKET]),
+    );
+  }
+
+  reset() {
+    this.consumers.clear();
+    this.paths.clear();
+    this.tagSets.clear();
+    this.metricNames.clear();
+    this.keys.clear();
+  }
+
+  /** Returns the number of distinct keys that overflowed since the last call */
+  getAndResetOverflowCount() {
+    const count = this.overflowedKeys.size;
+    this.overflowedKeys.clear();
+    return count;
+  }
+}
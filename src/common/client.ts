@@ -1,17 +1,29 @@
-import fetchRetry from "fetch-retry";
 import { randomUUID } from "node:crypto";
+import { EventEmitter } from "node:events";
 
+import { ClusterWorkerTransport, isClusterWorker } from "./cluster.js";
+import { applyFileConfig, loadConfigFile, resolveConfig } from "./config.js";
 import ConsumerRegistry from "./consumerRegistry.js";
-import { getOrCreateInstanceUuid } from "./instance.js";
+import { resolveStorage } from "./logStorage.js";
 import { Logger, getLogger } from "./logging.js";
+import MetricsCounter from "./metricsCounter.js";
+import OtelMetrics from "./otelMetrics.js";
+import OutboundRequestCounter from "./outboundRequestCounter.js";
+import OutboundRequestCollector from "./outboundRequests.js";
 import { isValidClientId, isValidEnv } from "./paramValidation.js";
+import PrometheusExporter from "./prometheus.js";
 import RequestCounter from "./requestCounter.js";
-import RequestLogger from "./requestLogger.js";
-import { getCpuMemoryUsage } from "./resources.js";
+import RequestLogger, { RequestLoggingConfig } from "./requestLogger.js";
+import ResourceMonitor from "./resources.js";
 import ServerErrorCounter from "./serverErrorCounter.js";
 import SpanCollector from "./spanCollector.js";
+import type SyncDataStore from "./syncDataStore.js";
+import HubTransport from "./transport.js";
 import {
+  ApitallyClientEvents,
   ApitallyConfig,
+  ApitallyTransport,
+  ClientStatus,
   StartupData,
   StartupPayload,
   SyncPayload,
@@ -22,142 +34,364 @@ const SYNC_INTERVAL = 60000; // 60 seconds
 const INITIAL_SYNC_INTERVAL = 10000; // 10 seconds
 const INITIAL_SYNC_INTERVAL_DURATION = 3600000; // 1 hour
 const MAX_QUEUE_TIME = 3.6e6; // 1 hour
+const DEFAULT_CLIENT_NAME = "default";
 
-class HTTPError extends Error {
-  public response: Response;
-
-  constructor(response: Response) {
-    const reason = response.status
-      ? `status code ${response.status}`
-      : "an unknown error";
-    super(`Request failed with ${reason}`);
-    this.response = response;
-  }
-}
-
-export class ApitallyClient {
+export class ApitallyClient extends EventEmitter<ApitallyClientEvents> {
+  public readonly name: string;
   private clientId: string;
   private env: string;
 
-  private static instance?: ApitallyClient;
-  private instanceUuid: string;
-  private syncDataQueue: SyncPayload[];
+  private static instances: Map<string, ApitallyClient> = new Map();
+  private instanceUuid!: string;
+  private syncDataQueue: SyncPayload[] = [];
+  private syncDataStore?: SyncDataStore;
   private syncIntervalId?: NodeJS.Timeout;
   public startupData?: StartupData;
   private startupDataSent: boolean = false;
   private enabled: boolean = true;
+  private invalidClientId: boolean = false;
+  private serverless: boolean;
+  private lastSyncTime: number | null = null;
+  private lastError: ClientStatus["lastError"] = null;
+  private stopListeningToClusterWorkers?: () => void;
+  private initPromise: Promise<void>;
 
   public requestCounter: RequestCounter;
   public requestLogger: RequestLogger;
   public spanCollector: SpanCollector;
+  public outboundRequestCollector: OutboundRequestCollector;
+  public outboundRequestCounter: OutboundRequestCounter;
   public validationErrorCounter: ValidationErrorCounter;
   public serverErrorCounter: ServerErrorCounter;
   public consumerRegistry: ConsumerRegistry;
+  public metrics: MetricsCounter;
+  public prometheusExporter: PrometheusExporter;
+  public resourceMonitor: ResourceMonitor;
   public logger: Logger;
+  private transport: ApitallyTransport;
 
-  constructor({
-    clientId,
-    env = "dev",
-    requestLogging,
-    requestLoggingConfig,
-    logger,
-  }: ApitallyConfig) {
-    if (ApitallyClient.instance) {
-      throw new Error("Apitally client is already initialized");
+  constructor(config: ApitallyConfig) {
+    super();
+    const name = config.name ?? DEFAULT_CLIENT_NAME;
+    if (ApitallyClient.instances.has(name)) {
+      throw new Error(`Apitally client '${name}' is already initialized`);
     }
 
-    this.logger = logger ?? getLogger();
+    this.logger = config.logger ?? getLogger();
+
+    if (config.requestLoggingConfig && !config.requestLogging) {
+      console.warn(
+        "requestLoggingConfig is deprecated, use requestLogging instead.",
+      );
+    }
+
+    const resolvedConfig = resolveConfig(config, this.logger);
+    const {
+      clientId,
+      env,
+      requestLogging,
+      transport,
+      compression,
+      cardinalityLimits,
+      histogram,
+      otelMetrics = false,
+      consumerRegistryCapacity,
+      identifyConsumer,
+      pseudonymizeConsumers,
+      validationErrorExtractors,
+      outboundRequests = false,
+      cluster = false,
+      serverless = false,
+      storage,
+    } = resolvedConfig;
+
+    // Values missing here may still be provided by the config file
+    this.validateConfig(clientId || undefined, env);
+    if (pseudonymizeConsumers && !pseudonymizeConsumers.secret) {
+      this.logger.error(
+        "Apitally consumer pseudonymization requires a secret (set pseudonymizeConsumers.secret)",
+      );
+      this.enabled = false;
+    }
+
+    ApitallyClient.instances.set(name, this);
+    this.name = name;
+    this.clientId = clientId ?? "";
+    this.env = env ?? "dev";
+    this.serverless = serverless;
+    const clusterWorkerTransport =
+      cluster && isClusterWorker()
+        ? new ClusterWorkerTransport(name, {
+            fallback: transport ?? new HubTransport(compression),
+            getHistogram: () => this.requestCounter.histogram,
+            writeLogLines: (lines) => this.requestLogger.writeLines(lines),
+          })
+        : null;
+    this.requestCounter = new RequestCounter(cardinalityLimits, histogram);
+    this.requestLogger = new RequestLogger(requestLogging, {
+      serverless,
+      storage: clusterWorkerTransport ? "memory" : storage,
+      forwardLines: clusterWorkerTransport
+        ? (lines) => clusterWorkerTransport.forwardLogLines(lines)
+        : undefined,
+      configPending: true,
+    });
+    this.spanCollector = new SpanCollector(
+      this.shouldCaptureTraces(),
+      serverless,
+    );
+    this.outboundRequestCollector = new OutboundRequestCollector(
+      this.enabled && outboundRequests,
+    );
+    this.outboundRequestCounter = new OutboundRequestCounter(cardinalityLimits);
+    this.validationErrorCounter = new ValidationErrorCounter(
+      cardinalityLimits,
+      validationErrorExtractors,
+    );
+    this.serverErrorCounter = new ServerErrorCounter(cardinalityLimits);
+    this.consumerRegistry = new ConsumerRegistry({
+      identifyConsumer,
+      capacity: consumerRegistryCapacity,
+      pseudonymization: pseudonymizeConsumers,
+    });
+    this.metrics = new MetricsCounter(cardinalityLimits, this.logger);
+    this.prometheusExporter = new PrometheusExporter(this);
+    this.resourceMonitor = new ResourceMonitor();
+    if (otelMetrics) {
+      const recorder = new OtelMetrics();
+      this.requestCounter.otelMetrics = recorder;
+      this.validationErrorCounter.otelMetrics = recorder;
+      this.serverErrorCounter.otelMetrics = recorder;
+    }
+    this.transport =
+      clusterWorkerTransport ?? transport ?? new HubTransport(compression);
+    this.handleShutdown = this.handleShutdown.bind(this);
+    this.initPromise = this.initialize(
+      resolvedConfig,
+      clusterWorkerTransport !== null,
+    ).catch((error) => {
+      this.logger.error("Error while initializing Apitally client", {
+        error,
+      });
+      this.requestLogger.releaseHeldRequests();
+    });
+  }
 
-    if (!isValidClientId(clientId)) {
+  /**
+   * Completes the setup with options from the config file, which is loaded
+   * asynchronously. Syncing waits for this to finish, and requests logged in
+   * the meantime are held back until the request logging config is final.
+   */
+  private async initialize(config: ApitallyConfig, clusterWorker: boolean) {
+    const fileConfig = await loadConfigFile(this.logger);
+    const {
+      clientId = "",
+      env = "dev",
+      requestLogging,
+      cluster = false,
+      storage,
+    } = applyFileConfig(config, fileConfig);
+
+    if (!clientId) {
+      this.logger.error(
+        "Apitally client ID is missing (set clientId or APITALLY_CLIENT_ID)",
+      );
+      this.enabled = false;
+    }
+    this.validateConfig(
+      config.clientId === undefined
+        ? fileConfig.clientId || undefined
+        : undefined,
+      config.env === undefined ? fileConfig.env : undefined,
+    );
+    this.clientId = clientId;
+    this.env = env;
+    if (!this.enabled) {
+      this.spanCollector.setEnabled(false);
+      this.outboundRequestCollector.close();
+    }
+    if (fileConfig.requestLogging && requestLogging) {
+      await this.updateRequestLoggingConfig(requestLogging);
+    }
+    this.requestLogger.releaseHeldRequests();
+
+    // Cluster workers neither claim an instance slot nor persist payloads. If
+    // no primary process is listening, each worker syncs as its own instance.
+    const resolvedStorage = clusterWorker
+      ? "memory"
+      : await resolveStorage(storage);
+    if (resolvedStorage === "filesystem") {
+      const [{ getOrCreateInstanceUuid }, { default: SyncDataStore }] =
+        await Promise.all([
+          import("./instance.js"),
+          import("./syncDataStore.js"),
+        ]);
+      this.instanceUuid = getOrCreateInstanceUuid(clientId, env);
+      this.syncDataStore = new SyncDataStore(clientId, env);
+      if (this.enabled) {
+        this.syncDataQueue.unshift(...this.syncDataStore.loadOrphaned());
+      }
+    } else {
+      // Without a filesystem the UUID can't be reused across restarts
+      this.instanceUuid = randomUUID();
+    }
+    this.transport.init?.({
+      clientId,
+      env,
+      logger: this.logger,
+      disable: () => {
+        this.enabled = false;
+        this.invalidClientId = true;
+        this.stopSync();
+        this.emitSafely("disabled");
+      },
+      suspendLogging: (until: number) => {
+        this.requestLogger.suspendUntil = until;
+        this.requestLogger.clear();
+        this.emitSafely("loggingSuspended", until);
+      },
+    });
+    if (cluster && !clusterWorker) {
+      const { listenToClusterWorkers } = await import("./clusterPrimary.js");
+      this.stopListeningToClusterWorkers = listenToClusterWorkers(this);
+    }
+  }
+
+  private validateConfig(clientId?: string, env?: string) {
+    if (clientId !== undefined && !isValidClientId(clientId)) {
       this.logger.error(
         `Invalid Apitally client ID '${clientId}' (expecting hexadecimal UUID format)`,
       );
       this.enabled = false;
     }
-    if (!isValidEnv(env)) {
+    if (env !== undefined && !isValidEnv(env)) {
       this.logger.error(
         `Invalid Apitally env '${env}' (expecting 1-32 alphanumeric characters and hyphens only)`,
       );
       this.enabled = false;
     }
-    if (requestLoggingConfig && !requestLogging) {
-      console.warn(
-        "requestLoggingConfig is deprecated, use requestLogging instead.",
-      );
+  }
+
+  public static getInstance(name: string = DEFAULT_CLIENT_NAME) {
+    const instance = ApitallyClient.instances.get(name);
+    if (!instance) {
+      throw new Error(`Apitally client '${name}' is not initialized`);
     }
+    return instance;
+  }
 
-    ApitallyClient.instance = this;
-    this.clientId = clientId;
-    this.env = env;
-    this.instanceUuid = getOrCreateInstanceUuid(clientId, env);
-    this.syncDataQueue = [];
-    this.requestCounter = new RequestCounter();
-    this.requestLogger = new RequestLogger(
-      requestLogging ?? requestLoggingConfig,
-    );
-    this.spanCollector = new SpanCollector(
+  public static getInstances() {
+    return Array.from(ApitallyClient.instances.values());
+  }
+
+  public isEnabled() {
+    return this.enabled;
+  }
+
+  public getStatus(): ClientStatus {
+    return {
+      enabled: this.enabled,
+      invalidClientId: this.invalidClientId,
+      lastSyncTime: this.lastSyncTime,
+      lastError: this.lastError,
+      syncQueueSize: this.syncDataQueue.length,
+      pendingLogFiles: this.requestLogger.pendingFiles,
+      droppedLogItems: this.requestLogger.droppedItems,
+      droppedLogFiles: this.requestLogger.droppedFiles,
+      loggingSuspendedUntil: this.requestLogger.suspendUntil,
+    };
+  }
+
+  public getResponseTimePercentiles() {
+    return this.requestCounter.getResponseTimePercentiles();
+  }
+
+  private recordError(error: unknown) {
+    this.lastError = {
+      message: error instanceof Error ? error.message : String(error),
+      time: Date.now(),
+    };
+  }
+
+  private shouldCaptureTraces() {
+    return (
       this.enabled &&
-        this.requestLogger.enabled &&
-        this.requestLogger.config.captureTraces,
+      this.requestLogger.enabled &&
+      this.requestLogger.config.captureTraces
     );
-    this.validationErrorCounter = new ValidationErrorCounter();
-    this.serverErrorCounter = new ServerErrorCounter();
-    this.consumerRegistry = new ConsumerRegistry();
-    this.handleShutdown = this.handleShutdown.bind(this);
   }
 
-  public static getInstance() {
-    if (!ApitallyClient.instance) {
-      throw new Error("Apitally client is not initialized");
+  private shouldCaptureLogs() {
+    return this.requestLogger.enabled && this.requestLogger.config.captureLogs;
+  }
+
+  /**
+   * Updates the request logging config without restarting, e.g. to
+   * temporarily log request and response bodies during an incident.
+   */
+  public async updateRequestLoggingConfig(
+    config: Partial<RequestLoggingConfig>,
+  ) {
+    await this.requestLogger.updateConfig(config);
+    this.spanCollector.setEnabled(this.shouldCaptureTraces());
+    this.emitSafely("requestLoggingConfigUpdated", this.requestLogger.config);
+  }
+
+  /**
+   * Runs the callback once log capture is enabled, either right away or
+   * after the request logging config has been updated at runtime.
+   */
+  public whenCaptureLogsEnabled(callback: () => unknown) {
+    if (this.shouldCaptureLogs()) {
+      callback();
+      return;
     }
-    return ApitallyClient.instance;
+    const listener = () => {
+      if (this.shouldCaptureLogs()) {
+        this.off("requestLoggingConfigUpdated", listener);
+        callback();
+      }
+    };
+    this.on("requestLoggingConfigUpdated", listener);
   }
 
-  public isEnabled() {
-    return this.enabled;
+  private emitSafely<K extends keyof ApitallyClientEvents>(
+    event: K,
+    ...args: ApitallyClientEvents[K]
+  ) {
+    try {
+      (this as EventEmitter).emit(event, ...args);
+    } catch (error) {
+      this.logger.error(`Error in ${event} event listener`, { error });
+    }
   }
 
   public static async shutdown() {
-    if (ApitallyClient.instance) {
-      await ApitallyClient.instance.handleShutdown();
-    }
+    await Promise.all(
+      ApitallyClient.getInstances().map((instance) =>
+        instance.handleShutdown(),
+      ),
+    );
   }
 
   public async handleShutdown() {
     this.enabled = false;
     this.stopSync();
+    await this.initPromise;
+    this.stopListeningToClusterWorkers?.();
     await this.sendSyncData();
     await this.sendLogData();
     await this.spanCollector.shutdown();
+    this.outboundRequestCollector.close();
+    this.resourceMonitor.close();
     await this.requestLogger.close();
-    ApitallyClient.instance = undefined;
-  }
-
-  private getHubUrlPrefix() {
-    const baseURL =
-      process.env.APITALLY_HUB_BASE_URL || "https://hub.apitally.io";
-    const version = "v2";
-    return `${baseURL}/${version}/${this.clientId}/${this.env}/`;
-  }
-
-  private async sendData(url: string, payload: any) {
-    const fetchWithRetry = fetchRetry(fetch, {
-      retries: 3,
-      retryDelay: 1000,
-      retryOn: [408, 429, 500, 502, 503, 504],
-    });
-    const response = await fetchWithRetry(this.getHubUrlPrefix() + url, {
-      method: "POST",
-      body: JSON.stringify(payload),
-      headers: { "Content-Type": "application/json" },
-    });
-    if (!response.ok) {
-      throw new HTTPError(response);
+    if (ApitallyClient.instances.get(this.name) === this) {
+      ApitallyClient.instances.delete(this.name);
     }
   }
 
   public startSync() {
-    if (!this.enabled) {
+    if (!this.enabled || this.serverless) {
       return;
     }
     this.sync();
@@ -175,6 +409,12 @@ export class ApitallyClient {
   }
 
   private async sync() {
+    await this.initPromise;
+    if (!this.enabled) {
+      // Disabled during initialization, e.g. if the client ID is missing
+      this.stopSync();
+      return;
+    }
     try {
       const promises = [this.sendSyncData(), this.sendLogData()];
       if (!this.startupDataSent) {
@@ -182,12 +422,25 @@ export class ApitallyClient {
       }
       await Promise.all(promises);
     } catch (error) {
+      this.recordError(error);
+      this.emitSafely("syncError", error);
       this.logger.error("Error while syncing with Apitally Hub", {
         error,
       });
     }
   }
 
+  public async flush() {
+    if (!this.enabled) {
+      return;
+    }
+    // Requests logged before the config file is loaded are held back until then
+    await this.initPromise;
+    this.spanCollector.maintain();
+    await this.requestLogger.maintain();
+    await this.sync();
+  }
+
   private stopSync() {
     if (this.syncIntervalId) {
       clearInterval(this.syncIntervalId);
@@ -209,17 +462,19 @@ export class ApitallyClient {
         ...this.startupData,
       };
       try {
-        await this.sendData("startup", payload);
-        this.startupDataSent = true;
-      } catch (error) {
-        const handled = this.handleHubError(error);
-        if (!handled) {
-          this.logger.error((error as Error).message);
-          this.logger.debug(
-            "Error while sending startup data to Apitally Hub (will retry)",
-            { error },
-          );
+        const outcome = await this.transport.sendStartupData(payload);
+        if (outcome === "rejected") {
+          this.recordError(new Error("Startup data rejected by Apitally Hub"));
+        } else {
+          this.startupDataSent = true;
         }
+      } catch (error) {
+        this.recordError(error);
+        this.logger.error((error as Error).message);
+        this.logger.debug(
+          "Error while sending startup data to Apitally Hub (will retry)",
+          { error },
+        );
       }
     }
   }
@@ -235,9 +490,34 @@ export class ApitallyClient {
         this.validationErrorCounter.getAndResetValidationErrors(),
       server_errors: this.serverErrorCounter.getAndResetServerErrors(),
       consumers: this.consumerRegistry.getAndResetUpdatedConsumers(),
-      resources: getCpuMemoryUsage(),
+      resources: this.resourceMonitor.getCpuMemoryUsage(),
     };
+    const metrics = this.metrics.getAndResetMetrics();
+    if (metrics.length > 0) {
+      newPayload.metrics = metrics;
+    }
+    const outboundRequests =
+      this.outboundRequestCounter.getAndResetOutboundRequests();
+    if (outboundRequests.length > 0) {
+      newPayload.outbound_requests = outboundRequests;
+    }
+    const cardinalityOverflows = {
+      requests:
+        this.requestCounter.cardinalityLimiter.getAndResetOverflowCount(),
+      validation_errors:
+        this.validationErrorCounter.cardinalityLimiter.getAndResetOverflowCount(),
+      server_errors:
+        this.serverErrorCounter.cardinalityLimiter.getAndResetOverflowCount(),
+      metrics: this.metrics.cardinalityLimiter.getAndResetOverflowCount(),
+      outbound_requests:
+        this.outboundRequestCounter.cardinalityLimiter.getAndResetOverflowCount(),
+    };
+    if (Object.values(cardinalityOverflows).some((count) => count > 0)) {
+      newPayload.cardinality_overflows = cardinalityOverflows;
+    }
+    this.emitSafely("beforeSync", newPayload);
     this.syncDataQueue.push(newPayload);
+    this.syncDataStore?.save(newPayload);
 
     let i = 0;
     while (this.syncDataQueue.length > 0) {
@@ -248,19 +528,26 @@ export class ApitallyClient {
             if (i > 0) {
               await this.randomDelay();
             }
-            await this.sendData("sync", payload);
+            const outcome = await this.transport.sendSyncData(payload);
+            if (outcome === "rejected") {
+              this.recordError(new Error("Sync data rejected by Apitally Hub"));
+              this.emitSafely("syncRejected", payload);
+            } else {
+              this.lastSyncTime = Date.now();
+              this.emitSafely("syncSuccess", payload);
+            }
             i += 1;
           }
+          this.syncDataStore?.delete(payload);
         } catch (error) {
-          const handled = this.handleHubError(error);
-          if (!handled) {
-            this.logger.debug(
-              "Error while synchronizing data with Apitally Hub (will retry)",
-              { error },
-            );
-            this.syncDataQueue.push(payload);
-            break;
-          }
+          this.recordError(error);
+          this.emitSafely("syncError", error, payload);
+          this.logger.debug(
+            "Error while synchronizing data with Apitally Hub (will retry)",
+            { error },
+          );
+          this.syncDataQueue.push(payload);
+          break;
         }
       }
     }
@@ -270,12 +557,6 @@ export class ApitallyClient {
     this.logger.debug("Sending request log data to Apitally Hub");
     await this.requestLogger.rotateFile();
 
-    const fetchWithRetry = fetchRetry(fetch, {
-      retries: 3,
-      retryDelay: 1000,
-      retryOn: [408, 429, 500, 502, 503, 504],
-    });
-
     let i = 0;
     let logFile;
     while ((logFile = this.requestLogger.getFile())) {
@@ -284,31 +565,17 @@ export class ApitallyClient {
       }
 
       try {
-        const response = await fetchWithRetry(
-          `${this.getHubUrlPrefix()}log?uuid=${logFile.uuid}`,
-          {
-            method: "POST",
-            body: (await logFile.getContent()) as any,
-          },
+        await this.transport.sendLogData(
+          logFile.uuid,
+          await logFile.getContent(),
         );
-
-        if (response.status === 402 && response.headers.has("Retry-After")) {
-          const retryAfter = parseInt(
-            response.headers.get("Retry-After") ?? "0",
-          );
-          if (retryAfter > 0) {
-            this.requestLogger.suspendUntil = Date.now() + retryAfter * 1000;
-            this.requestLogger.clear();
-            return;
-          }
-        }
-
-        if (!response.ok) {
-          throw new HTTPError(response);
+        if (this.requestLogger.suspendUntil !== null) {
+          return;
         }
-
         logFile.delete();
+        this.emitSafely("logFileSent", logFile.uuid);
       } catch (error) {
+        this.recordError(error);
         this.requestLogger.retryFileLater(logFile);
         break;
       }
@@ -318,24 +585,26 @@ export class ApitallyClient {
     }
   }
 
-  private handleHubError(error: unknown) {
-    if (error instanceof HTTPError) {
-      if (error.response.status === 404) {
-        this.logger.error(`Invalid Apitally client ID: '${this.clientId}'`);
-        this.enabled = false;
-        this.stopSync();
-        return true;
-      }
-      if (error.response.status === 422) {
-        this.logger.error("Received validation error from Apitally Hub");
-        return true;
-      }
-    }
-    return false;
-  }
-
   private async randomDelay() {
     const delay = 100 + Math.random() * 400;
     await new Promise((resolve) => setTimeout(resolve, delay));
   }
 }
+
+/**
+ * Returns the initialized client, e.g. to check its status or subscribe to
+ * lifecycle events.
+ */
+export function getClient(name?: string) {
+  return ApitallyClient.getInstance(name);
+}
+
+/**
+ * Flushes pending data of all clients. Call this at the end of each invocation
+ * when running with `serverless: true`.
+ */
+export async function flush() {
+  await Promise.all(
+    ApitallyClient.getInstances().map((client) => client.flush()),
+  );
+}
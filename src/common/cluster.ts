@@ -0,0 +1,185 @@
+import { Buffer } from "node:buffer";
+
+import {
+  ApitallyTransport,
+  HistogramConfig,
+  StartupData,
+  StartupPayload,
+  SyncPayload,
+  TransportContext,
+} from "./types.js";
+
+export const MESSAGE_TYPE = "apitally:cluster";
+const PRIMARY_TIMEOUT = 2000; // ms
+const MAX_PENDING_LOG_LINES = 1000;
+
+type ClusterMessageData =
+  | { kind: "hello" }
+  | { kind: "ready" }
+  | { kind: "startup"; data: StartupData }
+  | { kind: "sync"; payload: SyncPayload; histogram?: HistogramConfig }
+  | { kind: "logs"; lines: string[] };
+
+type ClusterWorkerTransportOptions = {
+  /** Used instead if no primary process is listening, e.g. in PM2 cluster mode */
+  fallback: ApitallyTransport;
+  getHistogram?: () => HistogramConfig;
+  /** Writes request logs locally if no primary process is listening */
+  writeLogLines?: (lines: Buffer[]) => Promise<void>;
+};
+
+export type ClusterMessage = {
+  type: typeof MESSAGE_TYPE;
+  name: string;
+} & ClusterMessageData;
+
+export function isClusterWorker() {
+  // Same check as cluster.isWorker, without loading node:cluster
+  return (
+    typeof process !== "undefined" &&
+    process.env?.NODE_UNIQUE_ID !== undefined &&
+    typeof process.send === "function"
+  );
+}
+
+/**
+ * Forwards data collected in a cluster worker to the client in the primary
+ * process over IPC, instead of sending it to the Hub. If the primary doesn't
+ * answer the initial handshake, e.g. because it's managed by PM2 and doesn't
+ * run an Apitally client, the worker sends its data to the Hub itself.
+ */
+export class ClusterWorkerTransport implements ApitallyTransport {
+  private name: string;
+  private options: ClusterWorkerTransportOptions;
+  private primaryListening?: boolean;
+  private primaryListeningPromise: Promise<boolean>;
+  private pendingLogLines: Buffer[] = [];
+
+  constructor(name: string, options: ClusterWorkerTransportOptions) {
+    this.name = name;
+    this.options = options;
+    this.primaryListeningPromise = this.waitForPrimary().then((listening) => {
+      this.primaryListening = listening;
+      this.flushPendingLogLines();
+      return listening;
+    });
+  }
+
+  init(context: TransportContext) {
+    this.options.fallback.init?.(context);
+  }
+
+  async sendStartupData(payload: StartupPayload) {
+    if (!(await this.primaryListeningPromise)) {
+      return this.options.fallback.sendStartupData(payload);
+    }
+    await this.send({
+      kind: "startup",
+      data: {
+        paths: payload.paths,
+        versions: payload.versions,
+        client: payload.client,
+      },
+    });
+  }
+
+  async sendSyncData(payload: SyncPayload) {
+    if (!(await this.primaryListeningPromise)) {
+      return this.options.fallback.sendSyncData(payload);
+    }
+    await this.send({
+      kind: "sync",
+      payload,
+      histogram: this.options.getHistogram?.(),
+    });
+  }
+
+  async sendLogData(uuid: string, data: Buffer) {
+    // Request logs are forwarded line by line, see forwardLogLines(), and only
+    // written to files if no primary process is listening
+    if (this.primaryListening === false) {
+      await this.options.fallback.sendLogData(uuid, data);
+    }
+  }
+
+  /** Returns false if the lines should be written locally instead */
+  forwardLogLines(lines: Buffer[]) {
+    if (this.primaryListening === false) {
+      return false;
+    }
+    if (this.primaryListening === undefined) {
+      // Held back until it's known whether the primary process is listening
+      if (this.pendingLogLines.length < MAX_PENDING_LOG_LINES) {
+        this.pendingLogLines.push(...lines);
+      }
+      return true;
+    }
+    this.send({
+      kind: "logs",
+      lines: lines.map((line) => line.toString()),
+    }).catch(() => {
+      // Request logs are dropped if the primary process is gone
+    });
+    return true;
+  }
+
+  private flushPendingLogLines() {
+    const lines = this.pendingLogLines;
+    this.pendingLogLines = [];
+    if (lines.length === 0) {
+      return;
+    }
+    if (this.primaryListening) {
+      this.forwardLogLines(lines);
+    } else {
+      this.options.writeLogLines?.(lines).catch(() => {
+        // Request logs are dropped if they can't be written
+      });
+    }
+  }
+
+  private waitForPrimary() {
+    return new Promise<boolean>((resolve) => {
+      const listener = (message: unknown) => {
+        if (
+          isClusterMessage(message) &&
+          message.kind === "ready" &&
+          message.name === this.name
+        ) {
+          done(true);
+        }
+      };
+      const done = (listening: boolean) => {
+        clearTimeout(timeout);
+        process.off("message", listener);
+        resolve(listening);
+      };
+      const timeout = setTimeout(() => done(false), PRIMARY_TIMEOUT);
+      process.on("message", listener);
+      this.send({ kind: "hello" }).catch(() => done(false));
+    });
+  }
+
+  private send(message: ClusterMessageData) {
+    return new Promise<void>((resolve, reject) => {
+      if (!process.send || !process.connected) {
+        reject(new Error("IPC channel to cluster primary is closed"));
+        return;
+      }
+      process.send(
+        { ...message, type: MESSAGE_TYPE, name: this.name },
+        undefined,
+        undefined,
+        (error: Error | null) => (error ? reject(error) : resolve()),
+      );
+    });
+  }
+}
+
+export function isClusterMessage(message: unknown): message is ClusterMessage {
+  return (
+    typeof message === "object" &&
+    message !== null &&
+    (message as ClusterMessage).type === MESSAGE_TYPE
+  );
+}
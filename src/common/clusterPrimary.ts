@@ -0,0 +1,71 @@
+import { Buffer } from "node:buffer";
+import cluster, { type Worker } from "node:cluster";
+
+import type { ApitallyClient } from "./client.js";
+import { isClusterMessage, MESSAGE_TYPE } from "./cluster.js";
+
+/**
+ * Merges data forwarded by cluster workers into the client in the primary
+ * process, which syncs it to the Hub under its own instance UUID. Returns a
+ * function that stops listening.
+ */
+export function listenToClusterWorkers(client: ApitallyClient) {
+  const listener = (worker: Worker, message: unknown) => {
+    if (!isClusterMessage(message) || message.name !== client.name) {
+      return;
+    }
+    try {
+      if (message.kind === "hello") {
+        // Lets the worker know that data forwarded to the primary is handled
+        worker.send({ type: MESSAGE_TYPE, name: client.name, kind: "ready" });
+        return;
+      }
+      if (!client.isEnabled()) {
+        return;
+      }
+      if (message.kind === "startup") {
+        // All workers run the same app, so the first startup data is used
+        if (!client.startupData) {
+          client.setStartupData(message.data);
+          client.startSync();
+        }
+      } else if (message.kind === "sync") {
+        const { payload } = message;
+        client.requestCounter.mergeRequests(
+          payload.requests,
+          message.histogram,
+        );
+        client.validationErrorCounter.mergeValidationErrors(
+          payload.validation_errors,
+        );
+        client.serverErrorCounter.mergeServerErrors(payload.server_errors);
+        payload.consumers.forEach((consumer) => {
+          client.consumerRegistry.addOrUpdateConsumer(consumer);
+        });
+        client.metrics.mergeMetrics(payload.metrics ?? []);
+        client.outboundRequestCounter.mergeOutboundRequests(
+          payload.outbound_requests ?? [],
+        );
+        if (payload.resources) {
+          client.resourceMonitor.addWorkerUsage(worker.id, payload.resources);
+        }
+      } else if (message.kind === "logs") {
+        client.requestLogger
+          .writeLines(message.lines.map((line) => Buffer.from(line)))
+          .catch((error) => {
+            client.logger.error("Error while writing forwarded request logs", {
+              error,
+            });
+          });
+      }
+    } catch (error) {
+      client.logger.error("Error while handling message from cluster worker", {
+        error,
+      });
+    }
+  };
+  cluster.on("message", listener);
+  return () => {
+    cluster.off("message", listener);
+  };
+}
@@ -0,0 +1,316 @@
+import { Logger } from "./logging.js";
+import { RequestLoggingConfig } from "./requestLogger.js";
+import { ApitallyConfig } from "./types.js";
+
+const CONFIG_FILE_NAMES = ["apitally.config.json", "apitally.config.js"];
+
+const BOOLEAN_KEYS = [
+  "enabled",
+  "logQueryParams",
+  "logRequestHeaders",
+  "logRequestBody",
+  "logResponseHeaders",
+  "logResponseBody",
+  "logException",
+  "captureLogs",
+  "captureTraces",
+  "alwaysLogServerErrors",
+  "alwaysLogExceptions",
+] as const;
+const NUMBER_KEYS = ["sampleRate", "alwaysLogSlowerThan"] as const;
+const PATTERN_KEYS = [
+  "maskQueryParams",
+  "maskHeaders",
+  "maskBodyFields",
+  "excludePaths",
+] as const;
+
+type SerializableRequestLoggingConfig = Partial<
+  Record<(typeof BOOLEAN_KEYS)[number], boolean | string> &
+    Record<(typeof NUMBER_KEYS)[number], number | string> &
+    Record<(typeof PATTERN_KEYS)[number], (string | RegExp)[] | string> & {
+      pathSampleRates: { path: string | RegExp; sampleRate: number }[];
+    }
+>;
+
+export type ApitallyFileConfig = {
+  clientId?: string;
+  env?: string;
+  requestLogging?: SerializableRequestLoggingConfig;
+};
+
+export type ParsedFileConfig = {
+  clientId?: string;
+  env?: string;
+  requestLogging?: Partial<RequestLoggingConfig>;
+};
+
+/**
+ * Merges the config passed in code with environment variables. Options passed
+ * in code take precedence over environment variables.
+ */
+export function resolveConfig(
+  config: ApitallyConfig,
+  logger: Logger,
+): ApitallyConfig {
+  return {
+    ...config,
+    clientId: config.clientId ?? getEnv("APITALLY_CLIENT_ID"),
+    env: config.env ?? getEnv("APITALLY_ENV"),
+    requestLogging: {
+      ...getRequestLoggingConfigFromEnv(logger),
+      ...(config.requestLogging ?? config.requestLoggingConfig),
+    },
+  };
+}
+
+/**
+ * Fills in options missing from the resolved config with those from the
+ * config file, which has the lowest precedence.
+ */
+export function applyFileConfig(
+  config: ApitallyConfig,
+  fileConfig: ParsedFileConfig,
+): ApitallyConfig {
+  return {
+    ...config,
+    clientId: config.clientId ?? fileConfig.clientId,
+    env: config.env ?? fileConfig.env,
+    requestLogging: {
+      ...fileConfig.requestLogging,
+      ...config.requestLogging,
+    },
+  };
+}
+
+/**
+ * Loads and validates the optional config file from the working directory.
+ * Node.js modules are imported lazily, as other runtimes may not have them.
+ */
+export async function loadConfigFile(
+  logger: Logger,
+  cwd?: string,
+): Promise<ParsedFileConfig> {
+  if (typeof process === "undefined" || typeof process.cwd !== "function") {
+    return {};
+  }
+  let fs: typeof import("node:fs/promises");
+  let path: typeof import("node:path");
+  let url: typeof import("node:url");
+  try {
+    [fs, path, url] = await Promise.all([
+      import("node:fs/promises"),
+      import("node:path"),
+      import("node:url"),
+    ]);
+  } catch {
+    return {};
+  }
+
+  const dir = cwd ?? process.cwd();
+  for (const fileName of CONFIG_FILE_NAMES) {
+    const filePath = path.join(dir, fileName);
+    try {
+      await fs.access(filePath);
+    } catch {
+      continue;
+    }
+    try {
+      let fileConfig;
+      if (fileName.endsWith(".json")) {
+        fileConfig = JSON.parse(await fs.readFile(filePath, "utf-8"));
+      } else {
+        const module = await import(
+          /* webpackIgnore: true */ /* @vite-ignore */ url.pathToFileURL(
+            filePath,
+          ).href
+        );
+        fileConfig = module.default ?? module;
+      }
+      if (typeof fileConfig !== "object" || fileConfig === null) {
+        throw new Error("Expected an object");
+      }
+      return parseFileConfig(fileConfig, logger);
+    } catch (error) {
+      logger.error(`Failed to load Apitally config file '${filePath}'`, {
+        error,
+      });
+      return {};
+    }
+  }
+  return {};
+}
+
+function parseFileConfig(fileConfig: ApitallyFileConfig, logger: Logger) {
+  const parsed: ParsedFileConfig = {};
+  for (const key of ["clientId", "env"] as const) {
+    const value = fileConfig[key];
+    if (value === undefined) {
+      continue;
+    }
+    if (typeof value !== "string") {
+      logger.warn(`Ignoring invalid value for ${key}: '${value}'`);
+      continue;
+    }
+    parsed[key] = value;
+  }
+  if (fileConfig.requestLogging !== undefined) {
+    if (
+      typeof fileConfig.requestLogging !== "object" ||
+      fileConfig.requestLogging === null
+    ) {
+      logger.warn("Ignoring invalid value for requestLogging");
+    } else {
+      parsed.requestLogging = parseRequestLoggingConfig(
+        fileConfig.requestLogging,
+        logger,
+      );
+    }
+  }
+  return parsed;
+}
+
+function getRequestLoggingConfigFromEnv(logger: Logger) {
+  const config: Record<string, string> = {};
+  for (const key of [...BOOLEAN_KEYS, ...NUMBER_KEYS, ...PATTERN_KEYS]) {
+    const value = getEnv(getEnvName(key));
+    if (value !== undefined) {
+      config[key] = value;
+    }
+  }
+  return parseRequestLoggingConfig(config, logger, getEnvName);
+}
+
+/**
+ * Validates request logging options from environment variables or the config
+ * file. String values are coerced the same way for both, so that e.g. `"false"`
+ * is accepted for a boolean option in the config file too.
+ */
+function parseRequestLoggingConfig(
+  config: SerializableRequestLoggingConfig,
+  logger: Logger,
+  getName: (key: string) => string = (key) => `requestLogging.${key}`,
+) {
+  const parsed: Partial<RequestLoggingConfig> = {};
+  for (const key of BOOLEAN_KEYS) {
+    const value = config[key];
+    if (value === undefined) {
+      continue;
+    }
+    const coerced = typeof value === "string" ? parseBoolean(value) : value;
+    if (typeof coerced !== "boolean") {
+      logger.warn(
+        `Ignoring invalid boolean value for ${getName(key)}: '${value}'`,
+      );
+      continue;
+    }
+    parsed[key] = coerced;
+  }
+  for (const key of NUMBER_KEYS) {
+    const value = config[key];
+    if (value === undefined) {
+      continue;
+    }
+    const coerced = typeof value === "string" ? Number(value) : value;
+    if (typeof coerced !== "number" || isNaN(coerced)) {
+      logger.warn(
+        `Ignoring invalid numeric value for ${getName(key)}: '${value}'`,
+      );
+      continue;
+    }
+    parsed[key] = coerced;
+  }
+  if (config.pathSampleRates !== undefined) {
+    if (Array.isArray(config.pathSampleRates)) {
+      parsed.pathSampleRates = config.pathSampleRates.flatMap((item) => {
+        try {
+          const sampleRate =
+            typeof item.sampleRate === "string"
+              ? Number(item.sampleRate)
+              : item.sampleRate;
+          if (typeof sampleRate !== "number" || isNaN(sampleRate)) {
+            throw new TypeError("Expected a number");
+          }
+          return [{ path: parsePattern(item.path), sampleRate }];
+        } catch {
+          logger.warn(`Ignoring invalid ${getName("pathSampleRates")} item`, {
+            item,
+          });
+          return [];
+        }
+      });
+    } else {
+      logger.warn(`Ignoring invalid value for ${getName("pathSampleRates")}`);
+    }
+  }
+  for (const key of PATTERN_KEYS) {
+    const value = config[key];
+    if (value === undefined) {
+      continue;
+    }
+    const patterns = typeof value === "string" ? splitPatterns(value) : value;
+    if (!Array.isArray(patterns)) {
+      logger.warn(`Ignoring invalid value for ${getName(key)}`);
+      continue;
+    }
+    parsed[key] = patterns.flatMap((pattern) => {
+      try {
+        return [parsePattern(pattern)];
+      } catch {
+        logger.warn(`Ignoring invalid pattern for ${getName(key)}`, {
+          pattern,
+        });
+        return [];
+      }
+    });
+  }
+  return parsed;
+}
+
+function splitPatterns(value: string) {
+  return value
+    .split(",")
+    .map((pattern) => pattern.trim())
+    .filter((pattern) => pattern.length > 0);
+}
+
+/**
+ * Converts the string form of a pattern to a regular expression. Accepts
+ * either a regex literal like `/^\/admin/i` or a plain pattern, which is
+ * matched case-insensitively.
+ */
+export function parsePattern(pattern: string | RegExp) {
+  if (pattern instanceof RegExp) {
+    return pattern;
+  }
+  if (typeof pattern !== "string") {
+    throw new TypeError("Expected a string or regular expression");
+  }
+  const match = pattern.match(/^\/(.+)\/([a-z]*)$/);
+  if (match) {
+    return new RegExp(match[1], match[2]);
+  }
+  return new RegExp(pattern, "i");
+}
+
+function parseBoolean(value: string) {
+  const normalized = value.trim().toLowerCase();
+  if (["true", "1", "yes", "on"].includes(normalized)) {
+    return true;
+  }
+  if (["false", "0", "no", "off"].includes(normalized)) {
+    return false;
+  }
+  return undefined;
+}
+
+function getEnvName(key: string) {
+  return `APITALLY_REQUEST_LOGGING_${key.replace(/[A-Z]/g, "_$&").toUpperCase()}`;
+}
+
+function getEnv(name: string) {
+  if (typeof process === "undefined" || !process.env) {
+    return undefined;
+  }
+  return process.env[name] || undefined;
+}
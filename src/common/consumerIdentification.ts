@@ -0,0 +1,69 @@
+import { Buffer } from "node:buffer";
+import { createHash } from "node:crypto";
+
+import {
+  ApitallyConsumer,
+  ConsumerRequest,
+  IdentifyConsumer,
+} from "./types.js";
+
+/**
+ * Derives the consumer from the request headers with one of the built-in
+ * strategies, or with a custom function.
+ */
+export function identifyConsumer(
+  strategy: IdentifyConsumer,
+  request: ConsumerRequest,
+): ApitallyConsumer | string | null | undefined {
+  if (typeof strategy === "function") {
+    return strategy(request);
+  }
+  switch (strategy.strategy) {
+    case "apiKeyHeader":
+      return hashApiKey(request.headers.get(strategy.header));
+    case "jwtClaim":
+      return getJwtClaim(
+        request.headers.get(strategy.header ?? "authorization"),
+        strategy.claim ?? "sub",
+      );
+    case "basicAuth":
+      return getBasicAuthUsername(request.headers.get("authorization"));
+  }
+}
+
+function hashApiKey(apiKey: string | null) {
+  if (!apiKey) {
+    return null;
+  }
+  // Only a prefix of the hash is used, so the key can't be recovered
+  return createHash("sha256").update(apiKey).digest("hex").substring(0, 16);
+}
+
+function getJwtClaim(value: string | null, claim: string) {
+  const token = value?.replace(/^Bearer\s+/i, "").trim();
+  const parts = token?.split(".");
+  if (!parts || parts.length !== 3) {
+    return null;
+  }
+  try {
+    // The signature is not verified, the token is only decoded
+    const payload = JSON.parse(Buffer.from(parts[1], "base64url").toString());
+    const claimValue = payload?.[claim];
+    if (typeof claimValue === "string" || typeof claimValue === "number") {
+      return String(claimValue);
+    }
+  } catch {
+    // Ignore malformed tokens
+  }
+  return null;
+}
+
+function getBasicAuthUsername(value: string | null) {
+  const match = value?.match(/^Basic\s+(.+)$/i);
+  if (!match) {
+    return null;
+  }
+  const credentials = Buffer.from(match[1], "base64").toString();
+  const separatorIndex = credentials.indexOf(":");
+  return separatorIndex > 0 ? credentials.substring(0, separatorIndex) : null;
+}
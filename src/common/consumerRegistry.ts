@@ -1,4 +1,28 @@
-import { ApitallyConsumer } from "./types.js";
+import { createHmac } from "node:crypto";
+
+import { identifyConsumer } from "./consumerIdentification.js";
+import { convertHeaders } from "./requestLogger.js";
+import {
+  ApitallyConsumer,
+  ConsumerPseudonymizationConfig,
+  IdentifyConsumer,
+} from "./types.js";
+
+const DEFAULT_CAPACITY = 10000;
+const MAX_METADATA_KEYS = 10;
+
+type ConsumerMetadata = NonNullable<ApitallyConsumer["metadata"]>;
+
+type ConsumerRegistryOptions = {
+  identifyConsumer?: IdentifyConsumer;
+  capacity: number;
+  pseudonymization?: ConsumerPseudonymizationConfig;
+};
+
+type ConsumerRequestInput = {
+  method: string;
+  headers: Headers | Parameters<typeof convertHeaders>[0];
+};
 
 export const consumerFromStringOrObject = (
   consumer: ApitallyConsumer | string,
@@ -10,48 +34,171 @@ export const consumerFromStringOrObject = (
     consumer.identifier = String(consumer.identifier).trim().substring(0, 128);
     consumer.name = consumer.name?.trim().substring(0, 64);
     consumer.group = consumer.group?.trim().substring(0, 64);
+    if (consumer.metadata) {
+      consumer.metadata = truncateMetadata(consumer.metadata);
+    }
     return consumer.identifier ? consumer : null;
   }
 };
 
+function truncateMetadata(metadata: ConsumerMetadata) {
+  const entries = Object.entries(metadata)
+    .filter(([, value]) =>
+      ["string", "number", "boolean"].includes(typeof value),
+    )
+    .slice(0, MAX_METADATA_KEYS)
+    .map(([key, value]) => [
+      key.substring(0, 32),
+      typeof value === "string" ? value.trim().substring(0, 128) : value,
+    ]);
+  return Object.fromEntries(entries) as ConsumerMetadata;
+}
+
+/**
+ * Keeps track of consumers to only sync them when they are new or their name,
+ * group or metadata changed. Least recently seen consumers are evicted once
+ * the capacity is reached, and synced again if they reappear.
+ */
 export default class ConsumerRegistry {
+  public capacity: number;
   private consumers: Map<string, ApitallyConsumer>;
-  private updated: Set<string>;
+  private updated: Map<string, ApitallyConsumer>;
+  private identifyConsumer?: IdentifyConsumer;
+  private pseudonymization?: ConsumerPseudonymizationConfig;
 
-  constructor() {
+  constructor({
+    identifyConsumer,
+    capacity,
+    pseudonymization,
+  }: Partial<ConsumerRegistryOptions> = {}) {
+    this.capacity = capacity ?? DEFAULT_CAPACITY;
     this.consumers = new Map();
-    this.updated = new Set();
+    this.updated = new Map();
+    this.identifyConsumer = identifyConsumer;
+    this.pseudonymization = pseudonymization;
+  }
+
+  /**
+   * Returns the consumer set by the app, or derives it from the request with
+   * the configured identifyConsumer strategy. Errors thrown by a custom
+   * function are ignored. This is the single place where consumers enter the
+   * client, so identifiers are pseudonymized here if configured.
+   */
+  public getConsumer(
+    consumer: ApitallyConsumer | string | null | undefined,
+    getRequest: () => ConsumerRequestInput,
+  ) {
+    return this.pseudonymize(this.resolveConsumer(consumer, getRequest));
+  }
+
+  private resolveConsumer(
+    consumer: ApitallyConsumer | string | null | undefined,
+    getRequest: () => ConsumerRequestInput,
+  ) {
+    if (consumer) {
+      return consumerFromStringOrObject(consumer);
+    }
+    if (!this.identifyConsumer) {
+      return null;
+    }
+    try {
+      const { method, headers } = getRequest();
+      const identified = identifyConsumer(this.identifyConsumer, {
+        method,
+        headers:
+          headers instanceof Headers
+            ? headers
+            : new Headers(convertHeaders(headers)),
+      });
+      return identified ? consumerFromStringOrObject(identified) : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private pseudonymize(consumer: ApitallyConsumer | null) {
+    if (!consumer || !this.pseudonymization) {
+      return consumer;
+    }
+    const {
+      secret,
+      includeName = false,
+      includeGroup = false,
+      includeMetadata = false,
+    } = this.pseudonymization;
+    return {
+      ...consumer,
+      identifier: createHmac("sha256", secret)
+        .update(consumer.identifier)
+        .digest("hex")
+        .substring(0, 32),
+      name: includeName ? consumer.name : undefined,
+      group: includeGroup ? consumer.group : undefined,
+      metadata: includeMetadata ? consumer.metadata : undefined,
+    };
   }
 
   public addOrUpdateConsumer(consumer?: ApitallyConsumer | null) {
-    if (!consumer || (!consumer.name && !consumer.group)) {
+    if (
+      !consumer ||
+      (!consumer.name && !consumer.group && !hasMetadata(consumer))
+    ) {
       return;
     }
     const existing = this.consumers.get(consumer.identifier);
     if (!existing) {
-      this.consumers.set(consumer.identifier, consumer);
-      this.updated.add(consumer.identifier);
-    } else {
-      if (consumer.name && consumer.name !== existing.name) {
-        existing.name = consumer.name;
-        this.updated.add(consumer.identifier);
+      const newConsumer = { ...consumer };
+      if (consumer.metadata) {
+        newConsumer.metadata = { ...consumer.metadata };
       }
-      if (consumer.group && consumer.group !== existing.group) {
-        existing.group = consumer.group;
-        this.updated.add(consumer.identifier);
+      this.consumers.set(consumer.identifier, newConsumer);
+      this.updated.set(consumer.identifier, newConsumer);
+      this.evictLeastRecentlySeen();
+      return;
+    }
+
+    // Move to the end of the map, which is ordered by insertion
+    this.consumers.delete(consumer.identifier);
+    this.consumers.set(consumer.identifier, existing);
+
+    if (consumer.name && consumer.name !== existing.name) {
+      existing.name = consumer.name;
+      this.updated.set(consumer.identifier, existing);
+    }
+    if (consumer.group && consumer.group !== existing.group) {
+      existing.group = consumer.group;
+      this.updated.set(consumer.identifier, existing);
+    }
+    if (consumer.metadata) {
+      const metadata = truncateMetadata({
+        ...existing.metadata,
+        ...consumer.metadata,
+      });
+      if (
+        JSON.stringify(metadata) !== JSON.stringify(existing.metadata ?? {})
+      ) {
+        existing.metadata = metadata;
+        this.updated.set(consumer.identifier, existing);
       }
     }
   }
 
   public getAndResetUpdatedConsumers() {
-    const data: Array<ApitallyConsumer> = [];
-    this.updated.forEach((identifier) => {
-      const consumer = this.consumers.get(identifier);
-      if (consumer) {
-        data.push(consumer);
-      }
-    });
+    const data = Array.from(this.updated.values()).map((consumer) => ({
+      ...consumer,
+    }));
     this.updated.clear();
     return data;
   }
+
+  private evictLeastRecentlySeen() {
+    while (this.consumers.size > this.capacity) {
+      const identifier = this.consumers.keys().next().value!;
+      this.consumers.delete(identifier);
+    }
+  }
+}
+
+function hasMetadata(consumer: ApitallyConsumer) {
+  return !!consumer.metadata && Object.keys(consumer.metadata).length > 0;
 }
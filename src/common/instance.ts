@@ -54,7 +54,7 @@ export function getOrCreateInstanceUuid(clientId: string, env: string): string {
   return randomUUID();
 }
 
-function getAppEnvHash(clientId: string, env: string): string {
+export function getAppEnvHash(clientId: string, env: string): string {
   return createHash("sha256")
     .update(`${clientId}:${env}`)
     .digest("hex")
@@ -80,7 +80,7 @@ function validateUuid(value: string): boolean {
   return UUID_REGEX.test(value);
 }
 
-function isPidAlive(pid: number): boolean {
+export function isPidAlive(pid: number): boolean {
   try {
     process.kill(pid, 0);
     return true;
@@ -0,0 +1,46 @@
+import type { Buffer } from "node:buffer";
+
+import MemoryGzipFile from "./memoryGzipFile.js";
+
+export type StorageType = "filesystem" | "memory";
+
+export interface LogFile {
+  uuid: string;
+  readonly size: number;
+  writeLines: (lines: Buffer[]) => Promise<void>;
+  getContent: () => Promise<Buffer>;
+  close: () => Promise<void>;
+  delete: () => Promise<void>;
+}
+
+/**
+ * Uses the filesystem if it is writable, and falls back to memory otherwise,
+ * e.g. on edge runtimes. Modules using the filesystem are only loaded here,
+ * so they are never loaded with memory storage.
+ */
+export async function resolveStorage(
+  storage?: StorageType,
+): Promise<StorageType> {
+  if (storage === "memory" || !isNodeRuntime()) {
+    return "memory";
+  }
+  const { checkWritableFs } = await import("./tempGzipFile.js");
+  return checkWritableFs() ? "filesystem" : "memory";
+}
+
+export async function createLogFile(
+  storage: StorageType,
+  name: string,
+): Promise<LogFile> {
+  if (storage === "filesystem") {
+    const { default: TempGzipFile } = await import("./tempGzipFile.js");
+    return new TempGzipFile(name);
+  }
+  return new MemoryGzipFile();
+}
+
+function isNodeRuntime() {
+  return (
+    typeof process !== "undefined" && typeof process.versions?.node === "string"
+  );
+}
@@ -1,5 +1,3 @@
-import { createLogger, format, transports } from "winston";
-
 export interface Logger {
   debug: (message: string, meta?: object) => void;
   info: (message: string, meta?: object) => void;
@@ -7,16 +5,70 @@ export interface Logger {
   error: (message: string, meta?: object) => void;
 }
 
-export function getLogger() {
-  return createLogger({
-    level: process.env.APITALLY_DEBUG ? "debug" : "warn",
-    format: format.combine(
-      format.colorize(),
-      format.timestamp(),
-      format.printf(
-        (info) => `${info.timestamp} ${info.level}: ${info.message}`,
-      ),
-    ),
-    transports: [new transports.Console()],
-  });
+type LogLevel = keyof Logger;
+
+const LOG_LEVELS: LogLevel[] = ["error", "warn", "info", "debug"];
+
+/**
+ * Returns the default logger. Winston is imported lazily, as it depends on
+ * Node.js modules, so messages are buffered until it's loaded. Logs to the
+ * console instead on runtimes where Winston can't be loaded.
+ */
+export function getLogger(): Logger {
+  const level: LogLevel =
+    typeof process !== "undefined" && process.env?.APITALLY_DEBUG
+      ? "debug"
+      : "warn";
+  let logger: Logger | undefined;
+  const buffer: [LogLevel, string, object | undefined][] = [];
+
+  import("winston")
+    .then(({ createLogger, format, transports }) =>
+      createLogger({
+        level,
+        format: format.combine(
+          format.colorize(),
+          format.timestamp(),
+          format.printf(
+            (info) => `${info.timestamp} ${info.level}: ${info.message}`,
+          ),
+        ),
+        transports: [new transports.Console()],
+      }),
+    )
+    .catch(() => getConsoleLogger(level))
+    .then((createdLogger) => {
+      logger = createdLogger;
+      buffer.splice(0).forEach(([level, message, meta]) => {
+        createdLogger[level](message, meta);
+      });
+    });
+
+  const log = (level: LogLevel) => (message: string, meta?: object) => {
+    if (logger) {
+      logger[level](message, meta);
+    } else {
+      buffer.push([level, message, meta]);
+    }
+  };
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
+}
+
+function getConsoleLogger(level: LogLevel): Logger {
+  const log = (messageLevel: LogLevel) => (message: string, meta?: object) => {
+    if (LOG_LEVELS.indexOf(messageLevel) <= LOG_LEVELS.indexOf(level)) {
+      console[messageLevel](`${messageLevel}: ${message}`, meta ?? "");
+    }
+  };
+  return {
+    debug: log("debug"),
+    info: log("info"),
+    warn: log("warn"),
+    error: log("error"),
+  };
 }
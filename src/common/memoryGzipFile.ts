@@ -0,0 +1,65 @@
+import { Buffer } from "node:buffer";
+import { randomUUID } from "node:crypto";
+
+import type { LogFile } from "./logStorage.js";
+
+/**
+ * In-memory alternative to TempGzipFile for runtimes without a writable
+ * filesystem. Compresses using the Web-standard CompressionStream API.
+ */
+export default class MemoryGzipFile implements LogFile {
+  public uuid: string;
+  private writer: WritableStreamDefaultWriter<BufferSource>;
+  private chunks: Uint8Array[] = [];
+  private bytesWritten = 0;
+  private closed = false;
+  private readPromise: Promise<void>;
+
+  constructor() {
+    this.uuid = randomUUID();
+    const stream = new CompressionStream("gzip");
+    this.writer = stream.writable.getWriter();
+    this.readPromise = this.readChunks(stream.readable.getReader());
+  }
+
+  get size() {
+    return this.bytesWritten;
+  }
+
+  private async readChunks(reader: ReadableStreamDefaultReader<Uint8Array>) {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      this.chunks.push(value);
+      this.bytesWritten += value.byteLength;
+    }
+  }
+
+  async writeLines(lines: Buffer[]) {
+    if (lines.length === 0) return;
+    const parts: Buffer[] = [];
+    const newline = Buffer.from("\n");
+    for (const line of lines) {
+      parts.push(line, newline);
+    }
+    await this.writer.write(Buffer.concat(parts));
+  }
+
+  async getContent() {
+    return Buffer.concat(this.chunks);
+  }
+
+  async close() {
+    if (!this.closed) {
+      this.closed = true;
+      await this.writer.close();
+    }
+    await this.readPromise;
+  }
+
+  async delete() {
+    await this.close();
+    this.chunks = [];
+    this.bytesWritten = 0;
+  }
+}
@@ -0,0 +1,169 @@
+import CardinalityLimiter, { OVERFLOW_BUCKET } from "./cardinalityLimiter.js";
+import type { Logger } from "./logging.js";
+import { getLogLinearBin } from "./requestCounter.js";
+import { normalizeRequestTags } from "./requestTags.js";
+import {
+  CardinalityLimits,
+  MetricsItem,
+  RequestTags,
+  RequestTagsInput,
+} from "./types.js";
+
+const METRIC_NAME_REGEX = /^[\w.:-]{1,64}$/;
+const MAX_WARNINGS_PER_SYNC = 10;
+
+type Series = {
+  name: string;
+  type: MetricsItem["type"];
+  tags?: RequestTags;
+  count: number;
+  sum: number;
+  min: number;
+  max: number;
+  values: Map<number, number>;
+};
+
+/**
+ * Aggregates custom business metrics between syncs. Counters are summed,
+ * distributions keep count, sum, min, max and log-linear histogram buckets.
+ */
+export default class MetricsCounter {
+  public cardinalityLimiter: CardinalityLimiter;
+  private series: Map<string, Series>;
+  private logger?: Logger;
+  private warnedNames: Set<string>;
+
+  constructor(cardinalityLimits?: Partial<CardinalityLimits>, logger?: Logger) {
+    this.cardinalityLimiter = new CardinalityLimiter(cardinalityLimits);
+    this.series = new Map();
+    this.logger = logger;
+    this.warnedNames = new Set();
+  }
+
+  increment(name: string, value: number = 1, tags?: RequestTagsInput) {
+    this.add("counter", name, value, tags);
+  }
+
+  observe(name: string, value: number, tags?: RequestTagsInput) {
+    this.add("distribution", name, value, tags);
+  }
+
+  private add(
+    type: MetricsItem["type"],
+    name: string,
+    value: number,
+    tagsInput?: RequestTagsInput,
+  ) {
+    if (!METRIC_NAME_REGEX.test(name)) {
+      this.warn(
+        name,
+        `Dropping metric with invalid name '${String(name).substring(0, 64)}' (expecting 1-64 alphanumeric characters, underscores, dots, colons and hyphens only)`,
+      );
+      return;
+    }
+    if (!Number.isFinite(value)) {
+      this.warn(name, `Dropping non-finite value for metric '${name}'`);
+      return;
+    }
+
+    const series = this.getSeries(type, name, normalizeRequestTags(tagsInput));
+    series.count += 1;
+    series.sum += value;
+    if (type === "distribution") {
+      series.min = Math.min(series.min, value);
+      series.max = Math.max(series.max, value);
+      const bin =
+        value >= 0 ? getLogLinearBin(value, 2) : -getLogLinearBin(-value, 2);
+      series.values.set(bin, (series.values.get(bin) || 0) + 1);
+    }
+  }
+
+  /** Warns at most once per metric name and a few times per sync window */
+  private warn(name: string, message: string) {
+    if (
+      this.warnedNames.has(name) ||
+      this.warnedNames.size >= MAX_WARNINGS_PER_SYNC
+    ) {
+      return;
+    }
+    this.warnedNames.add(name);
+    this.logger?.warn(message);
+  }
+
+  /** Adds metrics aggregated by another process, e.g. a cluster worker */
+  mergeMetrics(items: MetricsItem[]) {
+    items.forEach((item) => {
+      const series = this.getSeries(item.type, item.name, item.tags);
+      series.count += item.count;
+      series.sum += item.sum;
+      if (item.type === "distribution") {
+        series.min = Math.min(series.min, item.min ?? series.min);
+        series.max = Math.max(series.max, item.max ?? series.max);
+        Object.entries(item.values ?? {}).forEach(([bin, count]) => {
+          series.values.set(
+            Number(bin),
+            (series.values.get(Number(bin)) || 0) + count,
+          );
+        });
+      }
+    });
+  }
+
+  private getSeries(
+    type: MetricsItem["type"],
+    name: string,
+    tags?: RequestTags,
+  ) {
+    const [limited, key] = this.cardinalityLimiter.limitKey(
+      this.cardinalityLimiter.limitMetric(name, tags),
+      (metric) =>
+        [
+          type,
+          metric.name,
+          metric.tags ? JSON.stringify(metric.tags) : "",
+        ].join("|"),
+      () => ({ name: OVERFLOW_BUCKET, tags: undefined }),
+    );
+
+    let series = this.series.get(key);
+    if (!series) {
+      series = {
+        name: limited.name,
+        type,
+        tags: limited.tags,
+        count: 0,
+        sum: 0,
+        min: Infinity,
+        max: -Infinity,
+        values: new Map(),
+      };
+      this.series.set(key, series);
+    }
+    return series;
+  }
+
+  getAndResetMetrics() {
+    const data: Array<MetricsItem> = [];
+    this.series.forEach((series) => {
+      const item: MetricsItem = {
+        name: series.name,
+        type: series.type,
+        count: series.count,
+        sum: series.sum,
+      };
+      if (series.tags) {
+        item.tags = series.tags;
+      }
+      if (series.type === "distribution") {
+        item.min = series.min;
+        item.max = series.max;
+        item.values = Object.fromEntries(series.values);
+      }
+      data.push(item);
+    });
+    this.series.clear();
+    this.warnedNames.clear();
+    this.cardinalityLimiter.reset();
+    return data;
+  }
+}
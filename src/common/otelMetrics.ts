@@ -0,0 +1,105 @@
+import {
+  type Attributes,
+  type Counter,
+  type Histogram,
+  metrics,
+  type MeterProvider,
+} from "@opentelemetry/api";
+
+import { ConsumerMethodPath } from "./types.js";
+
+type Instruments = {
+  requestDuration: Histogram;
+  requestBodySize: Histogram;
+  responseBodySize: Histogram;
+  validationErrors: Counter;
+  serverErrors: Counter;
+};
+
+type RecordedRequest = {
+  method: string;
+  path: string;
+  statusCode: number;
+  responseTime: number;
+  requestSize?: number;
+  responseSize?: number;
+};
+
+/**
+ * Publishes request metrics as OpenTelemetry instruments, so they reach the
+ * globally registered MeterProvider in addition to being synced to the Hub.
+ * Consumers are not recorded as attributes to keep cardinality low.
+ */
+export default class OtelMetrics {
+  private meterProvider?: MeterProvider;
+  private instruments?: Instruments;
+
+  private getInstruments() {
+    // Meters obtained before a MeterProvider is registered are no-ops, so
+    // the instruments are recreated if the global provider changes
+    const meterProvider = metrics.getMeterProvider();
+    if (meterProvider !== this.meterProvider || !this.instruments) {
+      const meter = meterProvider.getMeter("apitally");
+      this.meterProvider = meterProvider;
+      this.instruments = {
+        requestDuration: meter.createHistogram("http.server.request.duration", {
+          description: "Duration of HTTP server requests.",
+          unit: "s",
+        }),
+        requestBodySize: meter.createHistogram(
+          "http.server.request.body.size",
+          { description: "Size of HTTP server request bodies.", unit: "By" },
+        ),
+        responseBodySize: meter.createHistogram(
+          "http.server.response.body.size",
+          { description: "Size of HTTP server response bodies.", unit: "By" },
+        ),
+        validationErrors: meter.createCounter("apitally.validation_errors", {
+          description: "Number of validation errors.",
+          unit: "{error}",
+        }),
+        serverErrors: meter.createCounter("apitally.server_errors", {
+          description: "Number of unhandled exceptions.",
+          unit: "{error}",
+        }),
+      };
+    }
+    return this.instruments;
+  }
+
+  recordRequest(request: RecordedRequest) {
+    const instruments = this.getInstruments();
+    const attributes: Attributes = {
+      ...getRouteAttributes(request),
+      "http.response.status_code": request.statusCode,
+    };
+    instruments.requestDuration.record(request.responseTime / 1000, attributes);
+    if (request.requestSize !== undefined) {
+      instruments.requestBodySize.record(request.requestSize, attributes);
+    }
+    if (request.responseSize !== undefined) {
+      instruments.responseBodySize.record(request.responseSize, attributes);
+    }
+  }
+
+  recordValidationError(validationError: ConsumerMethodPath) {
+    this.getInstruments().validationErrors.add(
+      1,
+      getRouteAttributes(validationError),
+    );
+  }
+
+  recordServerError(serverError: ConsumerMethodPath & { type: string }) {
+    this.getInstruments().serverErrors.add(1, {
+      ...getRouteAttributes(serverError),
+      "error.type": serverError.type,
+    });
+  }
+}
+
+function getRouteAttributes(item: { method: string; path: string }) {
+  return {
+    "http.request.method": item.method.toUpperCase(),
+    "http.route": item.path,
+  };
+}
@@ -0,0 +1,160 @@
+import CardinalityLimiter, { OVERFLOW_BUCKET } from "./cardinalityLimiter.js";
+import {
+  onOutboundRequestComplete,
+  type OutboundRequest,
+} from "./outboundRequests.js";
+import {
+  CardinalityLimits,
+  ConsumerMethodPath,
+  OutboundRequestsItem,
+} from "./types.js";
+
+type OutboundRequestDetails = ConsumerMethodPath & {
+  targetMethod: string;
+  targetHost: string;
+  statusCode: number | null;
+};
+
+/**
+ * Counts outbound HTTP requests per target host and method, broken down by
+ * the consumer and endpoint of the request that triggered them.
+ */
+export default class OutboundRequestCounter {
+  public cardinalityLimiter: CardinalityLimiter;
+  private requestCounts: Map<string, number>;
+  private requestDetails: Map<string, OutboundRequestDetails>;
+  private responseTimes: Map<string, Map<number, number>>;
+
+  constructor(cardinalityLimits?: Partial<CardinalityLimits>) {
+    this.cardinalityLimiter = new CardinalityLimiter(cardinalityLimits);
+    this.requestCounts = new Map();
+    this.requestDetails = new Map();
+    this.responseTimes = new Map();
+  }
+
+  addOutboundRequests(
+    requestInfo: ConsumerMethodPath,
+    outboundRequests?: OutboundRequest[],
+  ) {
+    if (!outboundRequests || outboundRequests.length === 0) {
+      return;
+    }
+    const limited = this.cardinalityLimiter.limit({
+      consumer: requestInfo.consumer,
+      method: requestInfo.method.toUpperCase(),
+      path: requestInfo.path,
+    });
+    // Requests still in flight are counted once they complete
+    outboundRequests.forEach((outboundRequest) => {
+      onOutboundRequestComplete(outboundRequest, () =>
+        this.addOutboundRequest(limited, outboundRequest),
+      );
+    });
+  }
+
+  /** Adds outbound requests counted by another process, e.g. a cluster worker */
+  mergeOutboundRequests(items: OutboundRequestsItem[]) {
+    items.forEach((item) => {
+      const limited = this.cardinalityLimiter.limit({
+        consumer: item.consumer,
+        method: item.method,
+        path: item.path,
+      });
+      const key = this.addDetails({
+        ...limited,
+        targetMethod: item.target_method,
+        targetHost: item.target_host,
+        statusCode: item.status_code,
+      });
+      this.requestCounts.set(
+        key,
+        (this.requestCounts.get(key) || 0) + item.request_count,
+      );
+      const responseTimes = this.responseTimes.get(key)!;
+      Object.entries(item.response_times).forEach(([bin, count]) => {
+        const responseTimeBin = Number(bin);
+        responseTimes.set(
+          responseTimeBin,
+          (responseTimes.get(responseTimeBin) || 0) + count,
+        );
+      });
+    });
+  }
+
+  getAndResetOutboundRequests() {
+    const data: Array<OutboundRequestsItem> = [];
+    this.requestCounts.forEach((count, key) => {
+      const details = this.requestDetails.get(key);
+      const responseTimes = this.responseTimes.get(key);
+      if (details && responseTimes) {
+        data.push({
+          consumer: details.consumer || null,
+          method: details.method,
+          path: details.path,
+          target_method: details.targetMethod,
+          target_host: details.targetHost,
+          status_code: details.statusCode,
+          request_count: count,
+          response_times: Object.fromEntries(responseTimes),
+        });
+      }
+    });
+
+    this.requestCounts.clear();
+    this.requestDetails.clear();
+    this.responseTimes.clear();
+    this.cardinalityLimiter.reset();
+
+    return data;
+  }
+
+  private addOutboundRequest(
+    requestInfo: ConsumerMethodPath,
+    outboundRequest: OutboundRequest,
+  ) {
+    const key = this.addDetails({
+      ...requestInfo,
+      targetMethod: outboundRequest.method,
+      targetHost: outboundRequest.host,
+      statusCode: outboundRequest.statusCode ?? null,
+    });
+    this.requestCounts.set(key, (this.requestCounts.get(key) || 0) + 1);
+
+    if (outboundRequest.responseTime !== undefined) {
+      // Rounded to nearest 10ms
+      const responseTimeBin =
+        Math.floor((outboundRequest.responseTime * 1000) / 10) * 10;
+      const responseTimes = this.responseTimes.get(key)!;
+      responseTimes.set(
+        responseTimeBin,
+        (responseTimes.get(responseTimeBin) || 0) + 1,
+      );
+    }
+  }
+
+  private addDetails(outboundRequest: OutboundRequestDetails) {
+    const [details, key] = this.cardinalityLimiter.limitKey(
+      outboundRequest,
+      (details) =>
+        [
+          details.consumer || "",
+          details.method.toUpperCase(),
+          details.path,
+          details.targetMethod,
+          details.targetHost,
+          details.statusCode ?? "",
+        ].join("|"),
+      (details) => ({
+        ...details,
+        consumer: details.consumer ? OVERFLOW_BUCKET : details.consumer,
+        path: OVERFLOW_BUCKET,
+        targetHost: OVERFLOW_BUCKET,
+      }),
+    );
+    if (!this.requestDetails.has(key)) {
+      this.requestDetails.set(key, details);
+      this.responseTimes.set(key, new Map());
+    }
+    return key;
+  }
+}
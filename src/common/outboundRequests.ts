@@ -0,0 +1,236 @@
+import { AsyncLocalStorage } from "node:async_hooks";
+import diagnosticsChannel from "node:diagnostics_channel";
+
+import { getHubBaseUrl } from "./transport.js";
+
+export type OutboundRequest = {
+  timestamp: number;
+  method: string;
+  /** URL without query string */
+  url: string;
+  host: string;
+  statusCode?: number;
+  /** Time until the response headers were received, or until the request failed */
+  responseTime?: number;
+  error?: string;
+};
+
+export type OutboundRequestHandle = {
+  runInContext: <T>(fn: () => T) => T;
+  enterContext: () => void;
+  end: () => OutboundRequest[] | undefined;
+};
+
+type UndiciRequest = { origin: string | URL; method: string; path: string };
+type HttpClientRequest = {
+  protocol: string;
+  host: string;
+  method: string;
+  path: string;
+  getHeader: (name: string) => unknown;
+};
+
+const MAX_OUTBOUND_REQUESTS = 100;
+
+const collectors = new Set<OutboundRequestCollector>();
+const pendingRequests = new WeakMap<
+  object,
+  { item: OutboundRequest; startTime: number }
+>();
+const completionCallbacks = new WeakMap<OutboundRequest, Array<() => void>>();
+let subscribed = false;
+
+/**
+ * Collects outbound HTTP requests made with fetch / undici or the http module
+ * while handling a request, using their diagnostics channels. Requests made
+ * outside of a request handler are not collected.
+ */
+export default class OutboundRequestCollector {
+  public enabled: boolean;
+  private context = new AsyncLocalStorage<OutboundRequest[]>();
+
+  constructor(enabled: boolean) {
+    this.enabled = enabled;
+    if (enabled) {
+      subscribeToChannels();
+      collectors.add(this);
+    }
+  }
+
+  start(): OutboundRequestHandle {
+    if (!this.enabled) {
+      return {
+        runInContext: <T>(fn: () => T): T => {
+          return fn();
+        },
+        enterContext: () => void 0,
+        end: () => undefined,
+      };
+    }
+
+    const requests: OutboundRequest[] = [];
+    let ended = false;
+
+    return {
+      runInContext: <T>(fn: () => T): T => {
+        return this.context.run(requests, fn);
+      },
+      enterContext: () => {
+        this.context.enterWith(requests);
+      },
+      end: () => {
+        if (ended) return;
+        ended = true;
+        // Includes requests still in flight when the response is sent
+        return [...requests];
+      },
+    };
+  }
+
+  getStore() {
+    return this.context.getStore();
+  }
+
+  close() {
+    this.enabled = false;
+    collectors.delete(this);
+  }
+}
+
+export function isOutboundRequestComplete(request: OutboundRequest) {
+  return request.statusCode !== undefined || request.error !== undefined;
+}
+
+/** Calls the callback once the outbound request has completed or failed */
+export function onOutboundRequestComplete(
+  request: OutboundRequest,
+  callback: () => void,
+) {
+  if (isOutboundRequestComplete(request)) {
+    callback();
+    return;
+  }
+  const callbacks = completionCallbacks.get(request);
+  if (callbacks) {
+    callbacks.push(callback);
+  } else {
+    completionCallbacks.set(request, [callback]);
+  }
+}
+
+function subscribeToChannels() {
+  if (subscribed) {
+    return;
+  }
+  subscribed = true;
+
+  diagnosticsChannel.subscribe("undici:request:create", (message) => {
+    const { request } = message as { request: UndiciRequest };
+    handleRequestStart(
+      request,
+      request.method,
+      `${request.origin}`,
+      request.path,
+    );
+  });
+  diagnosticsChannel.subscribe("undici:request:headers", (message) => {
+    const { request, response } = message as {
+      request: UndiciRequest;
+      response: { statusCode: number };
+    };
+    handleResponse(request, response.statusCode);
+  });
+  diagnosticsChannel.subscribe("undici:request:error", (message) => {
+    const { request, error } = message as {
+      request: UndiciRequest;
+      error: unknown;
+    };
+    handleError(request, error);
+  });
+
+  diagnosticsChannel.subscribe("http.client.request.start", (message) => {
+    const { request } = message as { request: HttpClientRequest };
+    const host = request.getHeader("host") ?? request.host;
+    handleRequestStart(
+      request,
+      request.method,
+      `${request.protocol}//${host}`,
+      request.path,
+    );
+  });
+  diagnosticsChannel.subscribe("http.client.response.finish", (message) => {
+    const { request, response } = message as {
+      request: HttpClientRequest;
+      response: { statusCode?: number };
+    };
+    handleResponse(request, response.statusCode ?? 0);
+  });
+  diagnosticsChannel.subscribe("http.client.request.error", (message) => {
+    const { request, error } = message as {
+      request: HttpClientRequest;
+      error: unknown;
+    };
+    handleError(request, error);
+  });
+}
+
+function handleRequestStart(
+  request: object,
+  method: string,
+  origin: string,
+  path: string,
+) {
+  const stores: OutboundRequest[][] = [];
+  for (const collector of collectors) {
+    const store = collector.getStore();
+    if (store && store.length < MAX_OUTBOUND_REQUESTS) {
+      stores.push(store);
+    }
+  }
+  if (stores.length === 0 || origin.startsWith(getHubBaseUrl())) {
+    return;
+  }
+
+  let url: URL;
+  try {
+    url = new URL(path, origin);
+  } catch {
+    return;
+  }
+  const item: OutboundRequest = {
+    timestamp: Date.now() / 1000,
+    method: method.toUpperCase(),
+    url: `${url.origin}${url.pathname}`,
+    host: url.host,
+  };
+  stores.forEach((store) => store.push(item));
+  pendingRequests.set(request, { item, startTime: performance.now() });
+}
+
+function handleResponse(request: object, statusCode: number) {
+  const pending = pendingRequests.get(request);
+  if (pending) {
+    pendingRequests.delete(request);
+    pending.item.statusCode = statusCode;
+    pending.item.responseTime = (performance.now() - pending.startTime) / 1000;
+    runCompletionCallbacks(pending.item);
+  }
+}
+
+function handleError(request: object, error: unknown) {
+  const pending = pendingRequests.get(request);
+  if (pending) {
+    pendingRequests.delete(request);
+    pending.item.error = error instanceof Error ? error.message : String(error);
+    pending.item.responseTime = (performance.now() - pending.startTime) / 1000;
+    runCompletionCallbacks(pending.item);
+  }
+}
+
+function runCompletionCallbacks(item: OutboundRequest) {
+  const callbacks = completionCallbacks.get(item);
+  if (callbacks) {
+    completionCallbacks.delete(item);
+    callbacks.forEach((callback) => callback());
+  }
+}
@@ -0,0 +1,313 @@
+import { OVERFLOW_BUCKET } from "./cardinalityLimiter.js";
+import type { ApitallyClient } from "./client.js";
+import { getCumulativeCpuMemoryUsage } from "./resources.js";
+import {
+  RequestsItem,
+  ServerErrorsItem,
+  SyncPayload,
+  ValidationErrorsItem,
+} from "./types.js";
+
+export const PROMETHEUS_CONTENT_TYPE =
+  "text/plain; version=0.0.4; charset=utf-8";
+
+const DURATION_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+const MAX_SERIES = 10000;
+
+type Labels = Record<string, string>;
+
+type RequestTotals = {
+  labels: Labels;
+  count: number;
+  requestSizeSum: number;
+  responseSizeSum: number;
+  responseTimes: Map<number, number>;
+};
+
+type ErrorTotals = {
+  labels: Labels;
+  count: number;
+};
+
+type Totals = {
+  requests: Map<string, RequestTotals>;
+  validationErrors: Map<string, ErrorTotals>;
+  serverErrors: Map<string, ErrorTotals>;
+};
+
+/**
+ * Renders the data collected by a client in the Prometheus text exposition
+ * format. Values are cumulative since the client was created, combining the
+ * windows already drained for the Hub with the current window, which is read
+ * without being reset. Each metric keeps at most MAX_SERIES label sets, new
+ * ones beyond that are aggregated in the overflow bucket.
+ */
+export default class PrometheusExporter {
+  private client: ApitallyClient;
+  private totals: Totals = {
+    requests: new Map(),
+    validationErrors: new Map(),
+    serverErrors: new Map(),
+  };
+
+  constructor(client: ApitallyClient) {
+    this.client = client;
+    // Prepended so the drained window is recorded before other listeners
+    // get a chance to modify the payload
+    this.client.prependListener("beforeSync", (payload: SyncPayload) => {
+      addToTotals(
+        this.totals,
+        payload.requests,
+        payload.validation_errors,
+        payload.server_errors,
+      );
+    });
+  }
+
+  render() {
+    const totals = structuredClone(this.totals);
+    addToTotals(
+      totals,
+      this.client.requestCounter.getRequests(),
+      this.client.validationErrorCounter.getValidationErrors(),
+      this.client.serverErrorCounter.getServerErrors(),
+    );
+
+    const requests = Array.from(totals.requests.values());
+    const getBinUpperBound = (binMs: number) =>
+      this.client.requestCounter.getResponseTimeBinUpperBound(binMs);
+    const lines = [
+      ...renderMetric(
+        "apitally_requests_total",
+        "counter",
+        "Total number of requests.",
+        requests.map((item) => [item.labels, item.count]),
+      ),
+      ...renderMetric(
+        "apitally_request_size_bytes_total",
+        "counter",
+        "Total size of request bodies in bytes.",
+        requests.map((item) => [item.labels, item.requestSizeSum]),
+      ),
+      ...renderMetric(
+        "apitally_response_size_bytes_total",
+        "counter",
+        "Total size of response bodies in bytes.",
+        requests.map((item) => [item.labels, item.responseSizeSum]),
+      ),
+      ...renderDurationHistogram(requests, getBinUpperBound),
+      ...renderMetric(
+        "apitally_validation_errors_total",
+        "counter",
+        "Total number of validation errors.",
+        Array.from(totals.validationErrors.values()).map((item) => [
+          item.labels,
+          item.count,
+        ]),
+      ),
+      ...renderMetric(
+        "apitally_server_errors_total",
+        "counter",
+        "Total number of unhandled exceptions.",
+        Array.from(totals.serverErrors.values()).map((item) => [
+          item.labels,
+          item.count,
+        ]),
+      ),
+    ];
+
+    const resources = getCumulativeCpuMemoryUsage();
+    lines.push(
+      ...renderMetric(
+        "process_cpu_seconds_total",
+        "counter",
+        "Total user and system CPU time spent in seconds.",
+        [[{}, resources.cpu_seconds_total]],
+      ),
+      ...renderMetric(
+        "process_resident_memory_bytes",
+        "gauge",
+        "Resident memory size in bytes.",
+        [[{}, resources.memory_rss]],
+      ),
+    );
+    return lines.join("\n") + "\n";
+  }
+}
+
+function addToTotals(
+  totals: Totals,
+  requests: RequestsItem[],
+  validationErrors: ValidationErrorsItem[],
+  serverErrors: ServerErrorsItem[],
+) {
+  requests.forEach((item) => {
+    // Request tags are not exposed as labels to keep label sets consistent
+    const labels = limitLabels(totals.requests, {
+      consumer: item.consumer || "",
+      method: item.method,
+      path: item.path,
+      status_code: item.status_code.toString(),
+    });
+    const key = getKey(labels);
+    if (!totals.requests.has(key)) {
+      totals.requests.set(key, {
+        labels,
+        count: 0,
+        requestSizeSum: 0,
+        responseSizeSum: 0,
+        responseTimes: new Map(),
+      });
+    }
+    const requestTotals = totals.requests.get(key)!;
+    requestTotals.count += item.request_count;
+    requestTotals.requestSizeSum += item.request_size_sum;
+    requestTotals.responseSizeSum += item.response_size_sum;
+    Object.entries(item.response_times).forEach(([bin, count]) => {
+      const binMs = Number(bin);
+      requestTotals.responseTimes.set(
+        binMs,
+        (requestTotals.responseTimes.get(binMs) || 0) + count,
+      );
+    });
+  });
+
+  validationErrors.forEach((item) => {
+    addErrorCount(
+      totals.validationErrors,
+      {
+        consumer: item.consumer || "",
+        method: item.method,
+        path: item.path,
+        loc: item.loc.join("."),
+        type: item.type,
+      },
+      item.error_count,
+    );
+  });
+
+  serverErrors.forEach((item) => {
+    addErrorCount(
+      totals.serverErrors,
+      {
+        consumer: item.consumer || "",
+        method: item.method,
+        path: item.path,
+        type: item.type,
+      },
+      item.error_count,
+    );
+  });
+}
+
+function addErrorCount(
+  errorTotals: Map<string, ErrorTotals>,
+  labels: Labels,
+  count: number,
+) {
+  labels = limitLabels(errorTotals, labels);
+  const key = getKey(labels);
+  const existing = errorTotals.get(key);
+  if (existing) {
+    existing.count += count;
+  } else {
+    errorTotals.set(key, { labels, count });
+  }
+}
+
+/**
+ * Keeps the label set if it's already tracked or there is room for it, and
+ * otherwise replaces all values except method and status code with the
+ * overflow bucket.
+ */
+function limitLabels(series: Map<string, unknown>, labels: Labels): Labels {
+  if (series.size < MAX_SERIES || series.has(getKey(labels))) {
+    return labels;
+  }
+  return Object.fromEntries(
+    Object.entries(labels).map(([key, value]) => [
+      key,
+      key === "method" || key === "status_code" ? value : OVERFLOW_BUCKET,
+    ]),
+  );
+}
+
+/**
+ * Response times are only available as histogram bins, so each bin is
+ * attributed to a bucket using its upper bound, which errs on the side of
+ * overstating latencies. The _sum is approximated using bin midpoints.
+ */
+function renderDurationHistogram(
+  requests: RequestTotals[],
+  getBinUpperBound: (binMs: number) => number,
+) {
+  const name = "apitally_request_duration_seconds";
+  const lines = [
+    `# HELP ${name} Approximate request duration in seconds.`,
+    `# TYPE ${name} histogram`,
+  ];
+  requests.forEach((item) => {
+    const bucketCounts = new Array<number>(DURATION_BUCKETS.length).fill(0);
+    let count = 0;
+    let sum = 0;
+    item.responseTimes.forEach((binCount, binMs) => {
+      const upperBoundMs = getBinUpperBound(binMs);
+      DURATION_BUCKETS.forEach((le, i) => {
+        if (upperBoundMs / 1000 <= le) {
+          bucketCounts[i] += binCount;
+        }
+      });
+      count += binCount;
+      sum += ((binMs + upperBoundMs) / 2000) * binCount;
+    });
+    DURATION_BUCKETS.forEach((le, i) => {
+      lines.push(
+        formatSample(
+          `${name}_bucket`,
+          { ...item.labels, le: le.toString() },
+          bucketCounts[i],
+        ),
+      );
+    });
+    lines.push(
+      formatSample(`${name}_bucket`, { ...item.labels, le: "+Inf" }, count),
+      formatSample(`${name}_sum`, item.labels, sum),
+      formatSample(`${name}_count`, item.labels, count),
+    );
+  });
+  return lines;
+}
+
+function renderMetric(
+  name: string,
+  type: "counter" | "gauge",
+  help: string,
+  samples: Array<[Labels, number]>,
+) {
+  return [
+    `# HELP ${name} ${help}`,
+    `# TYPE ${name} ${type}`,
+    ...samples.map(([labels, value]) => formatSample(name, labels, value)),
+  ];
+}
+
+function formatSample(name: string, labels: Labels, value: number) {
+  const labelPairs = Object.entries(labels).map(
+    ([key, value]) => `${key}="${escapeLabelValue(value)}"`,
+  );
+  const labelString = labelPairs.length > 0 ? `{${labelPairs.join(",")}}` : "";
+  return `${name}${labelString} ${value}`;
+}
+
+export function escapeLabelValue(value: string) {
+  return value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n");
+}
+
+function getKey(labels: Labels) {
+  return JSON.stringify(Object.values(labels));
+}
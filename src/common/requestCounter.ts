@@ -1,15 +1,41 @@
-import { RequestInfo, RequestsItem } from "./types.js";
+import CardinalityLimiter, { OVERFLOW_BUCKET } from "./cardinalityLimiter.js";
+import type OtelMetrics from "./otelMetrics.js";
+import { normalizeRequestTags } from "./requestTags.js";
+import {
+  CardinalityLimits,
+  ConsumerMethodPath,
+  EndpointPercentiles,
+  HistogramConfig,
+  RequestInfo,
+  RequestsItem,
+  RequestTags,
+} from "./types.js";
+
+const DEFAULT_HISTOGRAM_CONFIG: HistogramConfig = {
+  scheme: "linear",
+  significantDigits: 2,
+};
 
 export default class RequestCounter {
+  public cardinalityLimiter: CardinalityLimiter;
+  public histogram: HistogramConfig;
+  public otelMetrics?: OtelMetrics;
   private requestCounts: Map<string, number>;
+  private requestTags: Map<string, RequestTags>;
   private requestSizeSums: Map<string, number>;
   private responseSizeSums: Map<string, number>;
   private responseTimes: Map<string, Map<number, number>>;
   private requestSizes: Map<string, Map<number, number>>;
   private responseSizes: Map<string, Map<number, number>>;
 
-  constructor() {
+  constructor(
+    cardinalityLimits?: Partial<CardinalityLimits>,
+    histogram?: Partial<HistogramConfig>,
+  ) {
+    this.cardinalityLimiter = new CardinalityLimiter(cardinalityLimits);
+    this.histogram = { ...DEFAULT_HISTOGRAM_CONFIG, ...histogram };
     this.requestCounts = new Map<string, number>();
+    this.requestTags = new Map<string, RequestTags>();
     this.requestSizeSums = new Map<string, number>();
     this.responseSizeSums = new Map<string, number>();
     this.responseTimes = new Map<string, Map<number, number>>();
@@ -17,17 +43,68 @@ export default class RequestCounter {
     this.responseSizes = new Map<string, Map<number, number>>();
   }
 
-  private getKey(requestInfo: RequestInfo) {
+  private limit<
+    T extends ConsumerMethodPath & { statusCode: number; tags?: RequestTags },
+  >(item: T) {
+    return this.cardinalityLimiter.limitKey(
+      this.cardinalityLimiter.limit(item),
+      (item) => this.getKey(item, item.tags),
+      (item) => ({
+        ...item,
+        consumer: item.consumer ? OVERFLOW_BUCKET : item.consumer,
+        path: OVERFLOW_BUCKET,
+        tags: undefined,
+      }),
+    );
+  }
+
+  private getKey(
+    requestInfo: ConsumerMethodPath & { statusCode: number },
+    tags?: RequestTags,
+  ) {
     return [
       requestInfo.consumer || "",
       requestInfo.method.toUpperCase(),
       requestInfo.path,
       requestInfo.statusCode,
+      tags ? JSON.stringify(tags) : "",
     ].join("|");
   }
 
+  private getResponseTimeBin(responseTimeMs: number) {
+    if (this.histogram.scheme === "log-linear") {
+      return getLogLinearBin(responseTimeMs, this.histogram.significantDigits);
+    }
+    return Math.floor(responseTimeMs / 10) * 10; // Rounded to nearest 10ms
+  }
+
+  /** Returns the exclusive upper bound of a response time bin in ms */
+  getResponseTimeBinUpperBound(binMs: number) {
+    if (this.histogram.scheme === "log-linear") {
+      return (
+        binMs + getLogLinearBinWidth(binMs, this.histogram.significantDigits)
+      );
+    }
+    return binMs + 10;
+  }
+
+  private getSizeBin(sizeBytes: number) {
+    const sizeKb = sizeBytes / 1000;
+    if (this.histogram.scheme === "log-linear") {
+      return getLogLinearBin(sizeKb, this.histogram.significantDigits);
+    }
+    return Math.floor(sizeKb); // Rounded down to nearest KB
+  }
+
   addRequest(requestInfo: RequestInfo) {
-    const key = this.getKey(requestInfo);
+    const [{ tags, ...info }, key] = this.limit({
+      ...requestInfo,
+      tags: normalizeRequestTags(requestInfo.tags),
+    });
+    requestInfo = info;
+    if (tags && !this.requestTags.has(key)) {
+      this.requestTags.set(key, tags);
+    }
 
     // Increment request count
     this.requestCounts.set(key, (this.requestCounts.get(key) || 0) + 1);
@@ -37,7 +114,7 @@ export default class RequestCounter {
       this.responseTimes.set(key, new Map<number, number>());
     }
     const responseTimeMap = this.responseTimes.get(key)!;
-    const responseTimeMsBin = Math.floor(requestInfo.responseTime / 10) * 10; // Rounded to nearest 10ms
+    const responseTimeMsBin = this.getResponseTimeBin(requestInfo.responseTime);
     responseTimeMap.set(
       responseTimeMsBin,
       (responseTimeMap.get(responseTimeMsBin) || 0) + 1,
@@ -54,7 +131,7 @@ export default class RequestCounter {
         this.requestSizes.set(key, new Map<number, number>());
       }
       const requestSizeMap = this.requestSizes.get(key)!;
-      const requestSizeKbBin = Math.floor(requestInfo.requestSize / 1000); // Rounded down to nearest KB
+      const requestSizeKbBin = this.getSizeBin(requestInfo.requestSize);
       requestSizeMap.set(
         requestSizeKbBin,
         (requestSizeMap.get(requestSizeKbBin) || 0) + 1,
@@ -72,15 +149,123 @@ export default class RequestCounter {
         this.responseSizes.set(key, new Map<number, number>());
       }
       const responseSizeMap = this.responseSizes.get(key)!;
-      const responseSizeKbBin = Math.floor(requestInfo.responseSize / 1000); // Rounded down to nearest KB
+      const responseSizeKbBin = this.getSizeBin(requestInfo.responseSize);
       responseSizeMap.set(
         responseSizeKbBin,
         (responseSizeMap.get(responseSizeKbBin) || 0) + 1,
       );
     }
+
+    this.otelMetrics?.recordRequest({
+      method: requestInfo.method,
+      path: requestInfo.path,
+      statusCode: requestInfo.statusCode,
+      responseTime: requestInfo.responseTime,
+      requestSize: requestInfo.requestSize as number | undefined,
+      responseSize: requestInfo.responseSize as number | undefined,
+    });
   }
 
-  getAndResetRequests() {
+  /**
+   * Adds requests counted by another process, e.g. a cluster worker. Bins
+   * recorded with a different histogram configuration are converted by
+   * assigning their lower bounds to the bins of this counter.
+   */
+  mergeRequests(items: RequestsItem[], histogram?: HistogramConfig) {
+    const convertBins =
+      histogram !== undefined &&
+      (histogram.scheme !== this.histogram.scheme ||
+        histogram.significantDigits !== this.histogram.significantDigits);
+    const getSizeBin = (bin: number) => this.getSizeBin(bin * 1000);
+    items.forEach((item) => {
+      const [{ tags }, key] = this.limit({
+        consumer: item.consumer,
+        method: item.method,
+        path: item.path,
+        statusCode: item.status_code,
+        tags: item.tags,
+      });
+      if (tags && !this.requestTags.has(key)) {
+        this.requestTags.set(key, tags);
+      }
+      this.requestCounts.set(
+        key,
+        (this.requestCounts.get(key) || 0) + item.request_count,
+      );
+      this.requestSizeSums.set(
+        key,
+        (this.requestSizeSums.get(key) || 0) + item.request_size_sum,
+      );
+      this.responseSizeSums.set(
+        key,
+        (this.responseSizeSums.get(key) || 0) + item.response_size_sum,
+      );
+      mergeBins(
+        this.responseTimes,
+        key,
+        convertBins
+          ? rebin(item.response_times, (bin) => this.getResponseTimeBin(bin))
+          : item.response_times,
+      );
+      mergeBins(
+        this.requestSizes,
+        key,
+        convertBins
+          ? rebin(item.request_sizes, getSizeBin)
+          : item.request_sizes,
+      );
+      mergeBins(
+        this.responseSizes,
+        key,
+        convertBins
+          ? rebin(item.response_sizes, getSizeBin)
+          : item.response_sizes,
+      );
+    });
+  }
+
+  /**
+   * Returns approximate response time percentiles per endpoint for requests
+   * counted since the last sync, aggregated across consumers and status codes.
+   */
+  getResponseTimePercentiles() {
+    const endpoints = new Map<string, Map<number, number>>();
+    this.responseTimes.forEach((responseTimes, key) => {
+      const [, method, path] = key.split("|");
+      const endpointKey = `${method}|${path}`;
+      if (!endpoints.has(endpointKey)) {
+        endpoints.set(endpointKey, new Map<number, number>());
+      }
+      const endpointResponseTimes = endpoints.get(endpointKey)!;
+      responseTimes.forEach((count, bin) => {
+        endpointResponseTimes.set(
+          bin,
+          (endpointResponseTimes.get(bin) || 0) + count,
+        );
+      });
+    });
+
+    const data: Array<EndpointPercentiles> = [];
+    endpoints.forEach((responseTimes, endpointKey) => {
+      const [method, path] = endpointKey.split("|");
+      const bins = Array.from(responseTimes.entries()).sort(
+        ([a], [b]) => a - b,
+      );
+      const requestCount = bins.reduce((sum, [, count]) => sum + count, 0);
+      data.push({
+        method,
+        path,
+        request_count: requestCount,
+        p50: getPercentile(bins, requestCount, 0.5),
+        p95: getPercentile(bins, requestCount, 0.95),
+        p99: getPercentile(bins, requestCount, 0.99),
+      });
+    });
+    return data;
+  }
+
+  /** Returns the requests counted since the last sync without resetting */
+  getRequests() {
     const data: Array<RequestsItem> = [];
     this.requestCounts.forEach((count, key) => {
       const [consumer, method, path, statusCodeStr] = key.split("|");
@@ -90,10 +275,12 @@ export default class RequestCounter {
         this.requestSizes.get(key) || new Map<number, number>();
       const responseSizes =
         this.responseSizes.get(key) || new Map<number, number>();
+      const tags = this.requestTags.get(key);
       data.push({
         consumer: consumer || null,
         method,
         path,
+        ...(tags && { tags }),
         status_code: parseInt(statusCodeStr),
         request_count: count,
         request_size_sum: this.requestSizeSums.get(key) || 0,
@@ -103,15 +290,83 @@ export default class RequestCounter {
         response_sizes: Object.fromEntries(responseSizes),
       });
     });
+    return data;
+  }
+
+  getAndResetRequests() {
+    const data = this.getRequests();
 
     // Reset the counts and times
     this.requestCounts.clear();
+    this.requestTags.clear();
     this.requestSizeSums.clear();
     this.responseSizeSums.clear();
     this.responseTimes.clear();
     this.requestSizes.clear();
     this.responseSizes.clear();
+    this.cardinalityLimiter.reset();
 
     return data;
   }
 }
+
+export function getLogLinearBin(value: number, significantDigits: number) {
+  const intValue = Math.floor(value);
+  if (intValue < 10 ** significantDigits) {
+    return intValue;
+  }
+  const magnitude = Math.floor(Math.log10(intValue));
+  const scale = 10 ** (magnitude - significantDigits + 1);
+  return Math.floor(intValue / scale) * scale;
+}
+
+function getLogLinearBinWidth(bin: number, significantDigits: number) {
+  if (bin < 10 ** significantDigits) {
+    return 1;
+  }
+  const magnitude = Math.floor(Math.log10(bin));
+  return 10 ** (magnitude - significantDigits + 1);
+}
+
+function mergeBins(
+  binsByKey: Map<string, Map<number, number>>,
+  key: string,
+  bins: Record<number, number>,
+) {
+  const entries = Object.entries(bins);
+  if (entries.length === 0) {
+    return;
+  }
+  if (!binsByKey.has(key)) {
+    binsByKey.set(key, new Map<number, number>());
+  }
+  const binMap = binsByKey.get(key)!;
+  entries.forEach(([bin, count]) => {
+    binMap.set(Number(bin), (binMap.get(Number(bin)) || 0) + count);
+  });
+}
+
+function rebin(bins: Record<number, number>, getBin: (bin: number) => number) {
+  const converted: Record<number, number> = {};
+  Object.entries(bins).forEach(([bin, count]) => {
+    const newBin = getBin(Number(bin));
+    converted[newBin] = (converted[newBin] || 0) + count;
+  });
+  return converted;
+}
+
+function getPercentile(
+  bins: Array<[number, number]>,
+  totalCount: number,
+  percentile: number,
+) {
+  const rank = Math.ceil(percentile * totalCount);
+  let cumulativeCount = 0;
+  for (const [bin, count] of bins) {
+    cumulativeCount += count;
+    if (cumulativeCount >= rank) {
+      return bin;
+    }
+  }
+  return bins.length > 0 ? bins[bins.length - 1][0] : 0;
+}
@@ -3,13 +3,22 @@ import { Buffer } from "node:buffer";
 import { randomUUID } from "node:crypto";
 import type { IncomingHttpHeaders, OutgoingHttpHeaders } from "node:http";
 
+import {
+  createLogFile,
+  LogFile,
+  resolveStorage,
+  StorageType,
+} from "./logStorage.js";
+import {
+  isOutboundRequestComplete,
+  type OutboundRequest,
+} from "./outboundRequests.js";
 import { getSentryEventId } from "./sentry.js";
 import {
   truncateExceptionMessage,
   truncateExceptionStackTrace,
 } from "./serverErrorCounter.js";
 import type { SpanData } from "./spanCollector.js";
-import TempGzipFile, { checkWritableFs } from "./tempGzipFile.js";
 
 const MAX_BODY_SIZE = 50_000; // 50 KB (uncompressed)
 const MAX_FILE_SIZE = 1_000_000; // 1 MB (compressed)
@@ -90,10 +99,13 @@ export type Request = {
 
 export type Response = {
   statusCode: number;
+  /** Time until the response was sent, or until the client disconnected */
   responseTime: number;
   headers: [string, string][];
   size?: number;
   body?: Buffer;
+  /** Whether the client disconnected before the response was sent */
+  aborted?: boolean;
 };
 
 export type LogRecord = {
@@ -123,6 +135,16 @@ export type RequestLoggingConfig = {
   ) => Buffer | null | undefined;
   excludePaths: RegExp[];
   excludeCallback?: (request: Request, response: Response) => boolean;
+  sampleRate: number;
+  pathSampleRates: PathSampleRate[];
+  alwaysLogServerErrors: boolean;
+  alwaysLogExceptions: boolean;
+  alwaysLogSlowerThan?: number; // milliseconds
+};
+
+export type PathSampleRate = {
+  path: RegExp;
+  sampleRate: number;
 };
 
 const DEFAULT_CONFIG: RequestLoggingConfig = {
@@ -139,8 +161,29 @@ const DEFAULT_CONFIG: RequestLoggingConfig = {
   maskHeaders: [],
   maskBodyFields: [],
   excludePaths: [],
+  sampleRate: 1,
+  pathSampleRates: [],
+  alwaysLogServerErrors: true,
+  alwaysLogExceptions: true,
+};
+
+type RequestLoggerOptions = {
+  serverless: boolean;
+  storage: StorageType;
+  /**
+   * Receives serialized items instead of writing them to a file, unless it
+   * returns false
+   */
+  forwardLines?: (lines: Buffer[]) => boolean;
+  /**
+   * Holds back logged requests until releaseHeldRequests() is called, so they
+   * are logged with config that is still being loaded
+   */
+  configPending: boolean;
 };
 
+type LogRequestArgs = Parameters<RequestLogger["logRequest"]>;
+
 type RequestLogItem = {
   uuid: string;
   request: Request;
@@ -154,30 +197,96 @@ type RequestLogItem = {
   logs?: LogRecord[];
   spans?: SpanData[];
   traceId?: string;
+  outboundRequests?: OutboundRequest[];
+  sampleRate: number;
 };
 
 export default class RequestLogger {
   public config: RequestLoggingConfig;
   public enabled: boolean;
   public suspendUntil: number | null = null;
+  public droppedItems = 0;
+  public droppedFiles = 0;
   private pendingWrites: RequestLogItem[] = [];
-  private currentFile: TempGzipFile | null = null;
-  private files: TempGzipFile[] = [];
+  private heldRequests: LogRequestArgs[] | null = null;
+  /** Resolved when the first file is created */
+  public storage?: StorageType;
+  private storagePromise?: Promise<StorageType>;
+  private currentFile: LogFile | null = null;
+  private files: LogFile[] = [];
+  private serverless: boolean;
+  private forwardLines?: (lines: Buffer[]) => boolean;
   private maintainIntervalId?: NodeJS.Timeout;
   private maintainInProgress = false;
   private lock = new AsyncLock();
 
-  constructor(config?: Partial<RequestLoggingConfig>) {
+  constructor(
+    config?: Partial<RequestLoggingConfig>,
+    {
+      serverless = false,
+      storage,
+      forwardLines,
+      configPending = false,
+    }: Partial<RequestLoggerOptions> = {},
+  ) {
     this.config = { ...DEFAULT_CONFIG, ...config };
-    this.enabled = this.config.enabled && checkWritableFs();
+    this.storage = storage;
+    this.serverless = serverless;
+    this.forwardLines = forwardLines;
+    this.enabled = this.config.enabled;
+    if (configPending) {
+      this.heldRequests = [];
+    }
 
     if (this.enabled) {
+      this.startMaintenance();
+    }
+  }
+
+  private startMaintenance() {
+    if (!this.serverless && !this.maintainIntervalId) {
       this.maintainIntervalId = setInterval(() => {
         this.maintain().catch(() => {});
       }, 1000);
     }
   }
 
+  private stopMaintenance() {
+    if (this.maintainIntervalId) {
+      clearInterval(this.maintainIntervalId);
+      this.maintainIntervalId = undefined;
+    }
+  }
+
+  /**
+   * Applies config changes at runtime. When disabling, items already logged
+   * are still written to a file so they can be sent with the next sync.
+   */
+  async updateConfig(config: Partial<RequestLoggingConfig>) {
+    this.config = { ...this.config, ...config };
+    const enabled = this.config.enabled;
+    if (enabled && !this.enabled) {
+      this.enabled = true;
+      this.startMaintenance();
+    } else if (!enabled && this.enabled) {
+      this.stopMaintenance();
+      await this.writeToFile();
+      this.enabled = false;
+      this.pendingWrites = [];
+      await this.rotateFile();
+    }
+  }
+
+  /**
+   * Logs the requests held back while the config was pending with the current
+   * config, and logs further requests right away.
+   */
+  releaseHeldRequests() {
+    const heldRequests = this.heldRequests ?? [];
+    this.heldRequests = null;
+    heldRequests.forEach((args) => this.addItem(...args));
+  }
+
   get maxBodySize() {
     return MAX_BODY_SIZE;
   }
@@ -187,6 +296,26 @@ export default class RequestLogger {
     return matchPatterns(urlPath, patterns);
   }
 
+  private getSampleRate(
+    path: string,
+    response: Response,
+    error?: Error,
+  ): number {
+    if (
+      (this.config.alwaysLogServerErrors && response.statusCode >= 500) ||
+      (this.config.alwaysLogExceptions && error) ||
+      (this.config.alwaysLogSlowerThan !== undefined &&
+        response.responseTime * 1000 >= this.config.alwaysLogSlowerThan)
+    ) {
+      return 1;
+    }
+    const pathSampleRate = this.config.pathSampleRates.find(({ path: p }) =>
+      p.test(path),
+    );
+    const sampleRate = pathSampleRate?.sampleRate ?? this.config.sampleRate;
+    return Math.min(Math.max(sampleRate, 0), 1);
+  }
+
   private shouldExcludeUserAgent(userAgent?: string) {
     return userAgent
       ? matchPatterns(userAgent, EXCLUDE_USER_AGENT_PATTERNS)
@@ -388,6 +517,43 @@ export default class RequestLogger {
     logs?: LogRecord[],
     spans?: SpanData[],
     traceId?: string,
+    outboundRequests?: OutboundRequest[],
+  ) {
+    if (this.heldRequests) {
+      this.heldRequests.push([
+        request,
+        response,
+        error,
+        logs,
+        spans,
+        traceId,
+        outboundRequests,
+      ]);
+      if (this.heldRequests.length > MAX_PENDING_WRITES) {
+        this.heldRequests.shift();
+        this.droppedItems += 1;
+      }
+      return;
+    }
+    this.addItem(
+      request,
+      response,
+      error,
+      logs,
+      spans,
+      traceId,
+      outboundRequests,
+    );
+  }
+
+  private addItem(
+    request: Request,
+    response: Response,
+    error?: Error,
+    logs?: LogRecord[],
+    spans?: SpanData[],
+    traceId?: string,
+    outboundRequests?: OutboundRequest[],
   ) {
     if (!this.enabled || this.suspendUntil !== null) return;
 
@@ -410,6 +576,12 @@ export default class RequestLogger {
       return;
     }
 
+    // Sampling only applies to request logs, metrics are always counted
+    const sampleRate = this.getSampleRate(path, response, error);
+    if (sampleRate < 1 && Math.random() >= sampleRate) {
+      return;
+    }
+
     if (
       !this.config.logRequestBody ||
       !this.hasSupportedContentType(request.headers)
@@ -443,9 +615,10 @@ export default class RequestLogger {
               sentryEventId: getSentryEventId(),
             }
           : undefined,
+      sampleRate,
     };
 
-    if (logs && logs.length > 0) {
+    if (this.config.captureLogs && logs && logs.length > 0) {
       item.logs = logs.map((log) => ({
         timestamp: log.timestamp,
         logger: log.logger,
@@ -459,10 +632,18 @@ export default class RequestLogger {
     if (traceId) {
       item.traceId = traceId;
     }
+    // Requests still in flight when the response is sent are left out
+    const completedOutboundRequests = outboundRequests?.filter(
+      isOutboundRequestComplete,
+    );
+    if (completedOutboundRequests && completedOutboundRequests.length > 0) {
+      item.outboundRequests = completedOutboundRequests;
+    }
     this.pendingWrites.push(item);
 
     if (this.pendingWrites.length > MAX_PENDING_WRITES) {
       this.pendingWrites.shift();
+      this.droppedItems += 1;
     }
   }
 
@@ -481,9 +662,6 @@ export default class RequestLogger {
       if (items.length === 0) {
         return;
       }
-      if (!this.currentFile) {
-        this.currentFile = new TempGzipFile("request_logs");
-      }
 
       const lines: Buffer[] = [];
       for (let item of items) {
@@ -497,6 +675,8 @@ export default class RequestLogger {
           logs: item.logs,
           spans: item.spans,
           traceId: item.traceId,
+          outboundRequests: item.outboundRequests,
+          sampleRate: item.sampleRate,
         };
 
         // Set up body serialization for JSON
@@ -512,15 +692,45 @@ export default class RequestLogger {
         lines.push(Buffer.from(JSON.stringify(finalItem)));
       }
 
+      if (this.forwardLines?.(lines)) {
+        return;
+      }
+      if (!this.currentFile) {
+        this.currentFile = await this.createLogFile();
+      }
       await this.currentFile.writeLines(lines);
     });
   }
 
+  /** Writes items serialized by another process, e.g. a cluster worker */
+  async writeLines(lines: Buffer[]) {
+    if (!this.enabled || this.suspendUntil !== null || lines.length === 0) {
+      return;
+    }
+    return this.lock.acquire("file", async () => {
+      if (!this.currentFile) {
+        this.currentFile = await this.createLogFile();
+      }
+      await this.currentFile.writeLines(lines);
+    });
+  }
+
+  private async createLogFile() {
+    this.storagePromise ??= resolveStorage(this.storage).then(
+      (storage) => (this.storage = storage),
+    );
+    return createLogFile(await this.storagePromise, "request_logs");
+  }
+
+  get pendingFiles() {
+    return this.files.length;
+  }
+
   getFile() {
     return this.files.shift();
   }
 
-  retryFileLater(file: TempGzipFile) {
+  retryFileLater(file: LogFile) {
     this.files.unshift(file);
   }
 
@@ -551,6 +761,7 @@ export default class RequestLogger {
       while (this.files.length > MAX_FILES) {
         const file = this.files.shift();
         file?.delete();
+        this.droppedFiles += 1;
       }
       if (this.suspendUntil !== null && this.suspendUntil < Date.now()) {
         this.suspendUntil = null;
@@ -561,6 +772,9 @@ export default class RequestLogger {
   }
 
   async clear() {
+    if (this.heldRequests) {
+      this.heldRequests = [];
+    }
     this.pendingWrites = [];
     await this.rotateFile();
     this.files.forEach((file) => {
@@ -572,9 +786,7 @@ export default class RequestLogger {
   async close() {
     this.enabled = false;
     await this.clear();
-    if (this.maintainIntervalId) {
-      clearInterval(this.maintainIntervalId);
-    }
+    this.stopMaintenance();
   }
 }
 
@@ -0,0 +1,45 @@
+import { RequestTags, RequestTagsInput } from "./types.js";
+
+const MAX_TAGS = 5;
+const MAX_TAG_KEY_LENGTH = 32;
+const MAX_TAG_VALUE_LENGTH = 64;
+const TAG_KEY_REGEX = /^[\w.-]+$/;
+
+/**
+ * Returns a copy of the tags limited to the first five valid keys, with
+ * values converted to trimmed strings. Empty values are dropped.
+ */
+export function normalizeRequestTags(
+  tags?: RequestTagsInput | null,
+): RequestTags | undefined {
+  if (!tags) {
+    return undefined;
+  }
+  const normalized: RequestTags = {};
+  let count = 0;
+  for (const [key, value] of Object.entries(tags)) {
+    if (
+      value === null ||
+      value === undefined ||
+      key.length > MAX_TAG_KEY_LENGTH ||
+      !TAG_KEY_REGEX.test(key)
+    ) {
+      continue;
+    }
+    const stringValue = String(value).trim().substring(0, MAX_TAG_VALUE_LENGTH);
+    if (!stringValue) {
+      continue;
+    }
+    normalized[key] = stringValue;
+    if (++count >= MAX_TAGS) {
+      break;
+    }
+  }
+  if (count === 0) {
+    return undefined;
+  }
+  // Sort keys so that the same tags always result in the same aggregation key
+  return Object.fromEntries(
+    Object.entries(normalized).sort(([a], [b]) => a.localeCompare(b)),
+  );
+}
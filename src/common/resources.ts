@@ -1,35 +1,240 @@
-let lastCpuUsage: { user: number; system: number } | null = null;
-let lastCpuTime: number | null = null;
+import type {
+  EventLoopUtilization,
+  IntervalHistogram,
+  Performance,
+  PerformanceObserver,
+} from "node:perf_hooks";
 
-export function getCpuMemoryUsage() {
-  const currentCpuUsage = process.cpuUsage();
-  const currentTime = performance.now();
-  const memoryRss = process.memoryUsage().rss;
+import { ResourceUsage } from "./types.js";
 
-  let cpuPercent = null;
+const EVENT_LOOP_DELAY_RESOLUTION = 10; // ms
 
-  if (lastCpuUsage !== null && lastCpuTime !== null) {
-    // Calculate elapsed time in microseconds
-    const elapsedTime = (currentTime - lastCpuTime) * 1000;
+/**
+ * Measures CPU, memory and runtime usage between calls. Each client keeps its
+ * own monitor, so the intervals of one client aren't reset by another. Usage
+ * reported by cluster workers is combined with the usage of this process.
+ */
+export default class ResourceMonitor {
+  private lastCpuUsage: { user: number; system: number } | null = null;
+  private lastCpuTime: number | null = null;
+  private lastEventLoopUtilization: EventLoopUtilization | null = null;
+  private eventLoopDelayHistogram: IntervalHistogram | null = null;
+  private gcObserver: PerformanceObserver | null = null;
+  private nodePerformance: Performance | null = null;
+  private monitoringPromise: Promise<void> | null = null;
+  private closed = false;
+  private gcPauseTotal = 0;
+  private gcCount = 0;
+  private workerUsage = new Map<number, ResourceUsage>();
 
-    // Calculate CPU time used (user + system) in microseconds
-    const cpuTime =
-      currentCpuUsage.user -
-      lastCpuUsage.user +
-      (currentCpuUsage.system - lastCpuUsage.system);
+  /** Adds the latest usage reported by a cluster worker */
+  addWorkerUsage(workerId: number, usage: ResourceUsage) {
+    this.workerUsage.set(workerId, usage);
+  }
+
+  getCpuMemoryUsage(): ResourceUsage | null {
+    let currentCpuUsage: NodeJS.CpuUsage;
+    let memoryUsage: NodeJS.MemoryUsage;
+    try {
+      currentCpuUsage = process.cpuUsage();
+      memoryUsage = process.memoryUsage();
+    } catch {
+      // Not supported by this runtime
+      return null;
+    }
+    const currentTime = performance.now();
+    const memoryRss = memoryUsage.rss;
+
+    let cpuPercent = null;
+
+    if (this.lastCpuUsage !== null && this.lastCpuTime !== null) {
+      // Calculate elapsed time in microseconds
+      const elapsedTime = (currentTime - this.lastCpuTime) * 1000;
+
+      // Calculate CPU time used (user + system) in microseconds
+      const cpuTime =
+        currentCpuUsage.user -
+        this.lastCpuUsage.user +
+        (currentCpuUsage.system - this.lastCpuUsage.system);
+
+      // Calculate percentage
+      cpuPercent = (cpuTime / elapsedTime) * 100;
+    }
+
+    // Update last values for next call
+    this.lastCpuUsage = currentCpuUsage;
+    this.lastCpuTime = currentTime;
+
+    const runtimeUsage = this.getRuntimeUsage();
+    const workerUsage = Array.from(this.workerUsage.values());
+    this.workerUsage.clear();
+
+    return cpuPercent !== null
+      ? combineResourceUsage([
+          {
+            cpu_percent: cpuPercent,
+            memory_rss: memoryRss,
+            heap_used: memoryUsage.heapUsed,
+            heap_total: memoryUsage.heapTotal,
+            external_memory: memoryUsage.external,
+            ...runtimeUsage,
+          },
+          ...workerUsage,
+        ])
+      : null;
+  }
+
+  close() {
+    this.closed = true;
+    this.eventLoopDelayHistogram?.disable();
+    this.eventLoopDelayHistogram = null;
+    this.gcObserver?.disconnect();
+    this.gcObserver = null;
+  }
 
-    // Calculate percentage
-    cpuPercent = (cpuTime / elapsedTime) * 100;
+  /**
+   * Collects event loop and GC statistics since the previous call. Monitoring
+   * starts on the first call, so like the CPU usage, the first interval is
+   * skipped. APIs that the runtime doesn't support are left out.
+   */
+  private getRuntimeUsage() {
+    const usage: Partial<ResourceUsage> = {};
+    this.startMonitoring();
+
+    if (this.eventLoopDelayHistogram) {
+      const histogram = this.eventLoopDelayHistogram;
+      if (histogram.count > 0) {
+        usage.event_loop_delay = {
+          p50: getEventLoopDelay(histogram.percentile(50)),
+          p90: getEventLoopDelay(histogram.percentile(90)),
+          p99: getEventLoopDelay(histogram.percentile(99)),
+          max: getEventLoopDelay(histogram.max),
+        };
+      }
+      histogram.reset();
+    }
+
+    if (this.nodePerformance && this.lastEventLoopUtilization) {
+      const eventLoopUtilization = this.nodePerformance.eventLoopUtilization();
+      usage.event_loop_utilization = this.nodePerformance.eventLoopUtilization(
+        eventLoopUtilization,
+        this.lastEventLoopUtilization,
+      ).utilization;
+      this.lastEventLoopUtilization = eventLoopUtilization;
+    }
+
+    if (this.gcObserver) {
+      usage.gc_pause_total = this.gcPauseTotal;
+      usage.gc_count = this.gcCount;
+    }
+    this.gcPauseTotal = 0;
+    this.gcCount = 0;
+
+    if (typeof process.getActiveResourcesInfo === "function") {
+      usage.active_handles = process.getActiveResourcesInfo().length;
+    }
+
+    return usage;
   }
 
-  // Update last values for next call
-  lastCpuUsage = currentCpuUsage;
-  lastCpuTime = currentTime;
+  /**
+   * Starts monitoring the event loop and GC pauses. node:perf_hooks is
+   * imported lazily, as other runtimes may not have it.
+   */
+  private startMonitoring() {
+    this.monitoringPromise ??= import("node:perf_hooks")
+      .then(({ monitorEventLoopDelay, performance, PerformanceObserver }) => {
+        if (this.closed) {
+          return;
+        }
+        try {
+          this.lastEventLoopUtilization = performance.eventLoopUtilization();
+          this.nodePerformance = performance;
+        } catch {
+          // Not supported by this runtime
+        }
+        try {
+          this.eventLoopDelayHistogram = monitorEventLoopDelay({
+            resolution: EVENT_LOOP_DELAY_RESOLUTION,
+          });
+          this.eventLoopDelayHistogram.enable();
+        } catch {
+          // Not supported by this runtime
+        }
+        try {
+          this.gcObserver = new PerformanceObserver((list) => {
+            list.getEntries().forEach((entry) => {
+              this.gcPauseTotal += entry.duration;
+              this.gcCount += 1;
+            });
+          });
+          this.gcObserver.observe({ entryTypes: ["gc"] });
+        } catch {
+          // Not supported by this runtime
+        }
+      })
+      .catch(() => {
+        // Not supported by this runtime
+      });
+  }
+}
+
+/**
+ * Returns total CPU time and current memory usage without affecting the
+ * interval measured by getCpuMemoryUsage().
+ */
+export function getCumulativeCpuMemoryUsage() {
+  const cpuUsage = process.cpuUsage();
+  return {
+    cpu_seconds_total: (cpuUsage.user + cpuUsage.system) / 1e6,
+    memory_rss: process.memoryUsage().rss,
+  };
+}
 
-  return cpuPercent !== null
-    ? {
-        cpu_percent: cpuPercent,
-        memory_rss: memoryRss,
+/**
+ * Adds up the usage of multiple processes. Event loop statistics are taken
+ * from the busiest process.
+ */
+function combineResourceUsage([first, ...others]: ResourceUsage[]) {
+  const combined: ResourceUsage = { ...first };
+  const sumKeys = [
+    "cpu_percent",
+    "memory_rss",
+    "heap_used",
+    "heap_total",
+    "external_memory",
+    "gc_pause_total",
+    "gc_count",
+    "active_handles",
+  ] as const;
+  others.forEach((usage) => {
+    sumKeys.forEach((key) => {
+      if (combined[key] !== undefined || usage[key] !== undefined) {
+        combined[key] = (combined[key] ?? 0) + (usage[key] ?? 0);
       }
-    : null;
+    });
+    if (usage.event_loop_delay) {
+      const delay = combined.event_loop_delay;
+      combined.event_loop_delay = delay
+        ? {
+            p50: Math.max(delay.p50, usage.event_loop_delay.p50),
+            p90: Math.max(delay.p90, usage.event_loop_delay.p90),
+            p99: Math.max(delay.p99, usage.event_loop_delay.p99),
+            max: Math.max(delay.max, usage.event_loop_delay.max),
+          }
+        : usage.event_loop_delay;
+    }
+    if (usage.event_loop_utilization !== undefined) {
+      combined.event_loop_utilization = Math.max(
+        combined.event_loop_utilization ?? 0,
+        usage.event_loop_utilization,
+      );
+    }
+  });
+  return combined;
+}
+
+function getEventLoopDelay(sampleNs: number) {
+  // Samples include the sampling interval itself, which isn't a delay
+  return Math.max(sampleNs / 1e6 - EVENT_LOOP_DELAY_RESOLUTION, 0);
 }
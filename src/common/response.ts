@@ -1,3 +1,6 @@
+/** Non-standard status code used for requests the client aborted before receiving a response */
+export const ABORTED_STATUS_CODE = 499;
+
 type CaptureResponseOptions = {
   captureBody: boolean;
   maxBodySize: number;
@@ -91,6 +94,28 @@ export function captureResponse(
   return [newResponse, racePromise];
 }
 
+/**
+ * Returns a function that reports the time at which the client aborted the
+ * request, or undefined if it hasn't. The optional callback is called when
+ * the request is aborted after this function was called.
+ */
+export function watchRequestAbort(
+  request: Request,
+  onAbort?: (abortTime: number) => void,
+) {
+  let abortTime: number | undefined =
+    request.signal?.aborted === true ? performance.now() : undefined;
+  request.signal?.addEventListener(
+    "abort",
+    () => {
+      abortTime = performance.now();
+      onAbort?.(abortTime);
+    },
+    { once: true },
+  );
+  return () => abortTime;
+}
+
 export function getResponseJson(body: Buffer) {
   if (body.length === 0) {
     return null;
@@ -1,28 +1,40 @@
 import { createHash } from "node:crypto";
 
+import CardinalityLimiter, { OVERFLOW_BUCKET } from "./cardinalityLimiter.js";
+import type OtelMetrics from "./otelMetrics.js";
 import { getSentryEventId } from "./sentry.js";
-import { ConsumerMethodPath, ServerError, ServerErrorsItem } from "./types.js";
+import {
+  CardinalityLimits,
+  ConsumerMethodPath,
+  ServerError,
+  ServerErrorsItem,
+} from "./types.js";
 
 const MAX_MSG_LENGTH = 2048;
 const MAX_STACKTRACE_LENGTH = 65536;
 
 export default class ServerErrorCounter {
+  public cardinalityLimiter: CardinalityLimiter;
+  public otelMetrics?: OtelMetrics;
   private errorCounts: Map<string, number>;
   private errorDetails: Map<string, ConsumerMethodPath & ServerError>;
   private sentryEventIds: Map<string, string>;
 
-  constructor() {
+  constructor(cardinalityLimits?: Partial<CardinalityLimits>) {
+    this.cardinalityLimiter = new CardinalityLimiter(cardinalityLimits);
     this.errorCounts = new Map();
     this.errorDetails = new Map();
     this.sentryEventIds = new Map();
   }
 
   public addServerError(serverError: ConsumerMethodPath & ServerError) {
-    const key = this.getKey(serverError);
+    const [limited, key] = this.limit(serverError);
+    serverError = limited;
     if (!this.errorDetails.has(key)) {
       this.errorDetails.set(key, serverError);
     }
     this.errorCounts.set(key, (this.errorCounts.get(key) || 0) + 1);
+    this.otelMetrics?.recordServerError(serverError);
 
     const sentryEventId = getSentryEventId();
     if (sentryEventId) {
@@ -30,7 +42,31 @@ export default class ServerErrorCounter {
     }
   }
 
-  public getAndResetServerErrors() {
+  /** Adds server errors counted by another process, e.g. a cluster worker */
+  public mergeServerErrors(items: ServerErrorsItem[]) {
+    items.forEach((item) => {
+      const [serverError, key] = this.limit({
+        consumer: item.consumer,
+        method: item.method,
+        path: item.path,
+        type: item.type,
+        msg: item.msg,
+        traceback: item.traceback,
+      });
+      if (!this.errorDetails.has(key)) {
+        this.errorDetails.set(key, serverError);
+      }
+      this.errorCounts.set(
+        key,
+        (this.errorCounts.get(key) || 0) + item.error_count,
+      );
+      if (item.sentry_event_id) {
+        this.sentryEventIds.set(key, item.sentry_event_id);
+      }
+    });
+  }
+
+  public getServerErrors() {
     const data: Array<ServerErrorsItem> = [];
     this.errorCounts.forEach((count, key) => {
       const serverError = this.errorDetails.get(key);
@@ -47,12 +83,33 @@ export default class ServerErrorCounter {
         });
       }
     });
+    return data;
+  }
+
+  public getAndResetServerErrors() {
+    const data = this.getServerErrors();
     this.errorCounts.clear();
     this.errorDetails.clear();
     this.sentryEventIds.clear();
+    this.cardinalityLimiter.reset();
     return data;
   }
 
+  private limit(serverError: ConsumerMethodPath & ServerError) {
+    return this.cardinalityLimiter.limitKey(
+      this.cardinalityLimiter.limit(serverError),
+      (item) => this.getKey(item),
+      (item) => ({
+        ...item,
+        consumer: item.consumer ? OVERFLOW_BUCKET : item.consumer,
+        path: OVERFLOW_BUCKET,
+        type: OVERFLOW_BUCKET,
+        msg: OVERFLOW_BUCKET,
+        traceback: "",
+      }),
+    );
+  }
+
   private getKey(serverError: ConsumerMethodPath & ServerError) {
     const hashInput = [
       serverError.consumer || "",
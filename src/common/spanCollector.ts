@@ -41,15 +41,27 @@ export default class SpanCollector implements SpanProcessor {
   private traceStartTimes: Map<string, number> = new Map();
   private maintainIntervalId?: NodeJS.Timeout;
   private tracer?: Tracer;
+  private serverless: boolean;
 
-  constructor(enabled: boolean) {
+  constructor(enabled: boolean, serverless = false) {
+    this.enabled = false;
+    this.serverless = serverless;
+    this.setEnabled(enabled);
+  }
+
+  setEnabled(enabled: boolean) {
+    if (enabled === this.enabled) return;
     this.enabled = enabled;
 
     if (enabled) {
-      this.tracer = trace.getTracer("apitally");
-      this.maintainIntervalId = setInterval(() => {
-        this.maintain();
-      }, 60_000);
+      this.tracer ??= trace.getTracer("apitally");
+      if (!this.serverless) {
+        this.maintainIntervalId = setInterval(() => {
+          this.maintain();
+        }, 60_000);
+      }
+    } else {
+      this.clear();
     }
   }
 
@@ -171,7 +183,7 @@ export default class SpanCollector implements SpanProcessor {
     return data;
   }
 
-  private maintain() {
+  maintain() {
     const now = Date.now();
     for (const [traceId, startTime] of this.traceStartTimes) {
       if (now - startTime > TRACE_MAX_AGE) {
@@ -182,43 +194,45 @@ export default class SpanCollector implements SpanProcessor {
     }
   }
 
-  async shutdown(): Promise<void> {
-    this.enabled = false;
+  private clear() {
     this.includedSpanIds.clear();
     this.collectedSpans.clear();
     this.traceStartTimes.clear();
     if (this.maintainIntervalId) {
       clearInterval(this.maintainIntervalId);
+      this.maintainIntervalId = undefined;
     }
   }
 
+  async shutdown(): Promise<void> {
+    this.enabled = false;
+    this.clear();
+  }
+
   async forceFlush(): Promise<void> {
     // Nothing to flush since we collect spans synchronously
   }
 }
 
 export class ApitallySpanProcessor implements SpanProcessor {
-  private getCollector(): SpanCollector | undefined {
-    try {
-      return ApitallyClient.getInstance().spanCollector;
-    } catch {
-      return undefined;
-    }
+  private getCollectors(): SpanCollector[] {
+    // Each collector only keeps spans of traces it started itself
+    return ApitallyClient.getInstances().map((client) => client.spanCollector);
   }
 
   onStart(span: Span) {
-    this.getCollector()?.onStart(span);
+    this.getCollectors().forEach((collector) => collector.onStart(span));
   }
 
   onEnd(span: ReadableSpan) {
-    this.getCollector()?.onEnd(span);
+    this.getCollectors().forEach((collector) => collector.onEnd(span));
   }
 
   async shutdown() {
-    this.getCollector()?.shutdown();
+    this.getCollectors().forEach((collector) => collector.shutdown());
   }
 
   async forceFlush() {
-    this.getCollector()?.forceFlush();
+    this.getCollectors().forEach((collector) => collector.forceFlush());
   }
 }
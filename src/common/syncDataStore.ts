@@ -0,0 +1,127 @@
+import {
+  mkdirSync,
+  readdirSync,
+  readFileSync,
+  renameSync,
+  unlinkSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+import { getAppEnvHash, isPidAlive } from "./instance.js";
+import { checkWritableFs } from "./tempGzipFile.js";
+import { SyncPayload } from "./types.js";
+
+const TEMP_DIR = join(tmpdir(), "apitally");
+
+// Message UUIDs of payloads queued by any client in this process. Files with
+// the PID of this process but another message UUID were left behind by an
+// earlier process with the same PID, e.g. PID 1 in a restarted container.
+const queuedMessageUuids = new Set<string>();
+
+/**
+ * Persists undelivered sync payloads to the temp directory, so they can be
+ * delivered by a future instance if this process crashes or restarts.
+ */
+export default class SyncDataStore {
+  public enabled: boolean;
+  private prefix: string;
+
+  constructor(clientId: string, env: string) {
+    this.enabled = checkWritableFs();
+    this.prefix = `sync_${getAppEnvHash(clientId, env)}_`;
+  }
+
+  private getFilePath(pid: number, messageUuid: string) {
+    return join(TEMP_DIR, `${this.prefix}${pid}_${messageUuid}.json`);
+  }
+
+  save(payload: SyncPayload) {
+    if (!this.enabled) return;
+    queuedMessageUuids.add(payload.message_uuid);
+    try {
+      mkdirSync(TEMP_DIR, { recursive: true });
+      writeFileSync(
+        this.getFilePath(process.pid, payload.message_uuid),
+        JSON.stringify(payload),
+      );
+    } catch {
+      // Ignore write errors
+    }
+  }
+
+  delete(payload: SyncPayload) {
+    if (!this.enabled) return;
+    queuedMessageUuids.delete(payload.message_uuid);
+    deleteFile(this.getFilePath(process.pid, payload.message_uuid));
+  }
+
+  /**
+   * Claims payloads left behind by processes that are no longer running and
+   * returns them, ordered by timestamp. Payloads queued in the current process
+   * are never claimed, as they may belong to another client instance.
+   */
+  loadOrphaned() {
+    if (!this.enabled) return [];
+
+    let files: string[];
+    try {
+      files = readdirSync(TEMP_DIR);
+    } catch {
+      return [];
+    }
+
+    const payloads: SyncPayload[] = [];
+    for (const fileName of files) {
+      const match = fileName
+        .slice(this.prefix.length)
+        .match(/^(\d+)_([\w-]+)\.json$/);
+      if (!fileName.startsWith(this.prefix) || !match) {
+        continue;
+      }
+
+      const pid = parseInt(match[1], 10);
+      if (
+        pid === process.pid ? queuedMessageUuids.has(match[2]) : isPidAlive(pid)
+      ) {
+        continue;
+      }
+
+      // Rename first so that only one instance can claim the file
+      const filePath = join(TEMP_DIR, fileName);
+      const claimedFilePath = this.getFilePath(process.pid, match[2]);
+      try {
+        renameSync(filePath, claimedFilePath);
+      } catch {
+        // File has been claimed by another instance
+        continue;
+      }
+
+      try {
+        const payload = JSON.parse(readFileSync(claimedFilePath, "utf-8"));
+        if (
+          typeof payload.timestamp === "number" &&
+          payload.message_uuid === match[2]
+        ) {
+          queuedMessageUuids.add(payload.message_uuid);
+          payloads.push(payload);
+          continue;
+        }
+      } catch {
+        // Ignore read or parse error
+      }
+      deleteFile(claimedFilePath);
+    }
+
+    return payloads.sort((a, b) => a.timestamp - b.timestamp);
+  }
+}
+
+function deleteFile(path: string) {
+  try {
+    unlinkSync(path);
+  } catch {
+    // Ignore errors
+  }
+}
@@ -13,6 +13,8 @@ import { tmpdir } from "node:os";
 import { join } from "node:path";
 import { createGzip, Gzip } from "node:zlib";
 
+import type { LogFile } from "./logStorage.js";
+
 const TEMP_DIR = join(tmpdir(), "apitally");
 
 export function checkWritableFs() {
@@ -27,7 +29,7 @@ export function checkWritableFs() {
   }
 }
 
-export default class TempGzipFile {
+export default class TempGzipFile implements LogFile {
   public uuid: string;
   private filePath: string;
   private gzip: Gzip;
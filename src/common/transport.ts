@@ -0,0 +1,151 @@
+import fetchRetry from "fetch-retry";
+import { Buffer } from "node:buffer";
+
+import {
+  ApitallyTransport,
+  CompressionConfig,
+  StartupPayload,
+  SyncPayload,
+  TransportContext,
+  TransportOutcome,
+} from "./types.js";
+
+export class HTTPError extends Error {
+  public response: Response;
+
+  constructor(response: Response) {
+    const reason = response.status
+      ? `status code ${response.status}`
+      : "an unknown error";
+    super(`Request failed with ${reason}`);
+    this.response = response;
+  }
+}
+
+const DEFAULT_COMPRESSION_CONFIG: CompressionConfig = {
+  enabled: false,
+  encoding: "gzip",
+  threshold: 1024,
+};
+
+export function getHubBaseUrl() {
+  return process.env.APITALLY_HUB_BASE_URL || "https://hub.apitally.io";
+}
+
+export default class HubTransport implements ApitallyTransport {
+  public compression: CompressionConfig;
+  private context?: TransportContext;
+
+  constructor(compression?: Partial<CompressionConfig>) {
+    this.compression = { ...DEFAULT_COMPRESSION_CONFIG, ...compression };
+  }
+
+  init(context: TransportContext) {
+    this.context = context;
+  }
+
+  private getHubUrlPrefix() {
+    const version = "v2";
+    return `${getHubBaseUrl()}/${version}/${this.context?.clientId}/${this.context?.env}/`;
+  }
+
+  private async fetch(url: string, init: RequestInit) {
+    const fetchWithRetry = fetchRetry(fetch, {
+      retries: 3,
+      retryDelay: 1000,
+      retryOn: [408, 429, 500, 502, 503, 504],
+    });
+    return fetchWithRetry(this.getHubUrlPrefix() + url, init);
+  }
+
+  private async compress(json: string): Promise<[BodyInit, string?]> {
+    const body = Buffer.from(json);
+    if (!this.compression.enabled || body.length < this.compression.threshold) {
+      return [json];
+    }
+    // Imported lazily, as only Node.js has zlib
+    const [{ promisify }, zlib] = await Promise.all([
+      import("node:util"),
+      import("node:zlib"),
+    ]);
+    const compressed =
+      this.compression.encoding === "br"
+        ? await promisify(zlib.brotliCompress)(body)
+        : await promisify(zlib.gzip)(body);
+    return [new Uint8Array(compressed), this.compression.encoding];
+  }
+
+  private async sendData(url: string, payload: any): Promise<TransportOutcome> {
+    try {
+      const [body, contentEncoding] = await this.compress(
+        JSON.stringify(payload),
+      );
+      const headers: Record<string, string> = {
+        "Content-Type": "application/json",
+      };
+      if (contentEncoding) {
+        headers["Content-Encoding"] = contentEncoding;
+      }
+      const response = await this.fetch(url, {
+        method: "POST",
+        body,
+        headers,
+      });
+      if (!response.ok) {
+        throw new HTTPError(response);
+      }
+      return "delivered";
+    } catch (error) {
+      if (!this.handleHubError(error)) {
+        throw error;
+      }
+      return "rejected";
+    }
+  }
+
+  async sendStartupData(payload: StartupPayload) {
+    return this.sendData("startup", payload);
+  }
+
+  async sendSyncData(payload: SyncPayload) {
+    return this.sendData("sync", payload);
+  }
+
+  async sendLogData(uuid: string, data: Buffer) {
+    const response = await this.fetch(`log?uuid=${uuid}`, {
+      method: "POST",
+      body: data as any,
+    });
+
+    if (response.status === 402 && response.headers.has("Retry-After")) {
+      const retryAfter = parseInt(response.headers.get("Retry-After") ?? "0");
+      if (retryAfter > 0) {
+        this.context?.suspendLogging(Date.now() + retryAfter * 1000);
+        return;
+      }
+    }
+
+    if (!response.ok) {
+      throw new HTTPError(response);
+    }
+  }
+
+  private handleHubError(error: unknown) {
+    if (error instanceof HTTPError) {
+      if (error.response.status === 404) {
+        this.context?.logger.error(
+          `Invalid Apitally client ID: '${this.context.clientId}'`,
+        );
+        this.context?.disable();
+        return true;
+      }
+      if (error.response.status === 422) {
+        this.context?.logger.error(
+          "Received validation error from Apitally Hub",
+        );
+        return true;
+      }
+    }
+    return false;
+  }
+}
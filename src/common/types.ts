@@ -1,12 +1,52 @@
+import type { Buffer } from "node:buffer";
+
+import { StorageType } from "./logStorage.js";
 import { Logger } from "./logging.js";
 import { RequestLoggingConfig } from "./requestLogger.js";
 
 export type ApitallyConfig = {
-  clientId: string;
+  /** Unique name of the client, required when using multiple clients in one process */
+  name?: string;
+  /** Defaults to the APITALLY_CLIENT_ID environment variable */
+  clientId?: string;
+  /** Defaults to the APITALLY_ENV environment variable, or "dev" */
   env?: string;
+  /**
+   * Options missing here and in environment variables are read from the
+   * config file, which is loaded asynchronously. Requests handled before it
+   * is loaded are held back and logged with the options from all sources.
+   * Logging or body capture enabled only in the config file applies to
+   * requests handled after it is loaded.
+   */
   requestLogging?: Partial<RequestLoggingConfig>;
   appVersion?: string;
   logger?: Logger;
+  transport?: ApitallyTransport;
+  compression?: Partial<CompressionConfig>;
+  cardinalityLimits?: Partial<CardinalityLimits>;
+  histogram?: Partial<HistogramConfig>;
+  /** Also records request metrics with the global OpenTelemetry MeterProvider */
+  otelMetrics?: boolean;
+  /** Max number of consumers kept in memory, least recently seen ones are evicted first */
+  consumerRegistryCapacity?: number;
+  /** Derives the consumer from request headers if the app doesn't set one */
+  identifyConsumer?: IdentifyConsumer;
+  /** Replaces consumer identifiers with a keyed hash before they are recorded, and drops names, groups and metadata unless included */
+  pseudonymizeConsumers?: ConsumerPseudonymizationConfig;
+  /** Extractors for validation errors in custom formats, tried before the built-in ones */
+  validationErrorExtractors?: ValidationErrorExtractor[];
+  /** Counts outbound HTTP requests made while handling requests and adds them to request logs */
+  outboundRequests?: boolean;
+  /**
+   * In cluster workers, forwards data to the client in the primary process
+   * instead of syncing with the Hub, see setupClusterPrimary(). Workers sync
+   * with the Hub themselves if no primary is listening, e.g. with PM2.
+   */
+  cluster?: boolean;
+  /** Disables background timers, data is only sent when calling flush() */
+  serverless?: boolean;
+  /** Where to buffer request logs, falls back to memory if the filesystem isn't writable */
+  storage?: StorageType;
 
   /** @deprecated Use requestLogging instead */
   requestLoggingConfig?: Partial<RequestLoggingConfig>;
@@ -16,8 +56,37 @@ export type ApitallyConsumer = {
   identifier: string;
   name?: string | null;
   group?: string | null;
+  /** Small attributes like plan or company, limited to 10 keys */
+  metadata?: Record<string, string | number | boolean> | null;
+};
+
+export type ConsumerPseudonymizationConfig = {
+  /** Secret key for the HMAC, must stay the same for identifiers to be stable */
+  secret: string;
+  /** Also sends consumer names, which are dropped by default as they may contain personal data */
+  includeName?: boolean;
+  /** Also sends consumer groups, which are dropped by default */
+  includeGroup?: boolean;
+  /** Also sends consumer metadata, which is dropped by default */
+  includeMetadata?: boolean;
+};
+
+export type ConsumerRequest = {
+  method: string;
+  headers: Headers;
 };
 
+export type IdentifyConsumer =
+  /** Uses a hash of the API key in the given header */
+  | { strategy: "apiKeyHeader"; header: string }
+  /** Uses a claim of the bearer token, defaults to "sub" in the Authorization header */
+  | { strategy: "jwtClaim"; claim?: string; header?: string }
+  /** Uses the username of Basic authentication credentials */
+  | { strategy: "basicAuth" }
+  | ((
+      request: ConsumerRequest,
+    ) => ApitallyConsumer | string | null | undefined);
+
 export type PathInfo = {
   method: string;
   path: string;
@@ -40,14 +109,22 @@ export type ConsumerMethodPath = {
   path: string;
 };
 
+export type RequestTags = Record<string, string>;
+export type RequestTagsInput = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
 export type RequestInfo = ConsumerMethodPath & {
   statusCode: number;
   responseTime: number;
   requestSize?: string | number | null;
   responseSize?: string | number | null;
+  tags?: RequestTagsInput | null;
 };
 
 export type RequestsItem = ConsumerMethodPath & {
+  tags?: RequestTags;
   status_code: number;
   request_count: number;
   request_size_sum: number;
@@ -57,12 +134,30 @@ export type RequestsItem = ConsumerMethodPath & {
   response_sizes: Record<number, number>;
 };
 
+export type MetricsItem = {
+  name: string;
+  type: "counter" | "distribution";
+  tags?: RequestTags;
+  count: number;
+  sum: number;
+  min?: number;
+  max?: number;
+  values?: Record<number, number>;
+};
+
 export type ValidationError = {
   loc: string;
   msg: string;
   type: string;
 };
 
+/**
+ * Extracts validation errors from a 400 or 422 response body, or from the
+ * error object thrown by a validation library. Returns an empty array if the
+ * body isn't in the expected format.
+ */
+export type ValidationErrorExtractor = (body: any) => ValidationError[];
+
 export type ValidationErrorsItem = ConsumerMethodPath & {
   loc: Array<string>;
   msg: string;
@@ -84,6 +179,15 @@ export type ServerErrorsItem = ConsumerMethodPath & {
   error_count: number;
 };
 
+export type OutboundRequestsItem = ConsumerMethodPath & {
+  target_method: string;
+  target_host: string;
+  /** Null if the request failed without a response */
+  status_code: number | null;
+  request_count: number;
+  response_times: Record<number, number>;
+};
+
 export type ConsumerItem = ApitallyConsumer;
 
 export type SyncPayload = {
@@ -94,8 +198,127 @@ export type SyncPayload = {
   validation_errors: Array<ValidationErrorsItem>;
   server_errors: Array<ServerErrorsItem>;
   consumers: Array<ConsumerItem>;
-  resources: {
-    cpu_percent: number;
-    memory_rss: number;
-  } | null;
+  resources: ResourceUsage | null;
+  metrics?: Array<MetricsItem>;
+  outbound_requests?: Array<OutboundRequestsItem>;
+  /** Number of items aggregated into overflow buckets, only set if non-zero */
+  cardinality_overflows?: {
+    requests: number;
+    validation_errors: number;
+    server_errors: number;
+    metrics: number;
+    outbound_requests: number;
+  };
+};
+
+export type ResourceUsage = {
+  cpu_percent: number;
+  memory_rss: number;
+  heap_used?: number;
+  heap_total?: number;
+  external_memory?: number;
+  /** Event loop delay percentiles in milliseconds */
+  event_loop_delay?: { p50: number; p90: number; p99: number; max: number };
+  /** Fraction of time the event loop was busy, between 0 and 1 */
+  event_loop_utilization?: number;
+  /** Total duration of garbage collection pauses in milliseconds */
+  gc_pause_total?: number;
+  gc_count?: number;
+  active_handles?: number;
+};
+
+export type ClientStatus = {
+  enabled: boolean;
+  /** Whether the client was disabled because the Hub rejected the client ID */
+  invalidClientId: boolean;
+  /** Unix timestamp in milliseconds */
+  lastSyncTime: number | null;
+  lastError: { message: string; time: number } | null;
+  syncQueueSize: number;
+  pendingLogFiles: number;
+  droppedLogItems: number;
+  droppedLogFiles: number;
+  /** Unix timestamp in milliseconds */
+  loggingSuspendedUntil: number | null;
+};
+
+export type ApitallyClientEvents = {
+  /** Listeners may modify the payload before it is queued for delivery */
+  beforeSync: [payload: SyncPayload];
+  syncSuccess: [payload: SyncPayload];
+  /** The payload was rejected by the Hub and dropped without retrying */
+  syncRejected: [payload: SyncPayload];
+  syncError: [error: unknown, payload?: SyncPayload];
+  logFileSent: [uuid: string];
+  loggingSuspended: [until: number];
+  disabled: [];
+  requestLoggingConfigUpdated: [config: RequestLoggingConfig];
+};
+
+export type CardinalityLimits = {
+  /** Maximum number of distinct consumers per counter between syncs */
+  maxConsumers: number;
+  /** Maximum number of distinct method and path combinations per counter between syncs */
+  maxPaths: number;
+  /** Maximum number of distinct tag combinations per counter between syncs */
+  maxTagSets: number;
+  /** Maximum number of distinct custom metric names between syncs */
+  maxMetrics: number;
+  /** Maximum number of distinct items (combinations of all fields) per counter between syncs */
+  maxKeys: number;
 };
+
+export type HistogramConfig = {
+  /**
+   * "linear" uses 10 ms buckets for response times and 1 KB buckets for sizes.
+   * "log-linear" keeps the given number of significant digits, giving 1 ms
+   * resolution for fast requests and wider buckets for slow ones.
+   */
+  scheme: "linear" | "log-linear";
+  significantDigits: number;
+};
+
+export type EndpointPercentiles = {
+  method: string;
+  path: string;
+  request_count: number;
+  /** Response time percentiles in milliseconds */
+  p50: number;
+  p95: number;
+  p99: number;
+};
+
+export type CompressionConfig = {
+  enabled: boolean;
+  encoding: "gzip" | "br";
+  /** Minimum size of the uncompressed body in bytes */
+  threshold: number;
+};
+
+export type TransportContext = {
+  clientId: string;
+  env: string;
+  logger: Logger;
+  disable: () => void;
+  suspendLogging: (until: number) => void;
+};
+
+/**
+ * Outcome of sending a payload. Transports may also resolve without an
+ * outcome, which counts as delivered.
+ */
+export type TransportOutcome = "delivered" | "rejected";
+
+/**
+ * Delivers payloads collected by the client. Methods should resolve once a
+ * payload has been delivered or deliberately dropped ("rejected"), and throw
+ * if it should be retried later.
+ */
+export interface ApitallyTransport {
+  init?: (context: TransportContext) => void;
+  sendStartupData: (
+    payload: StartupPayload,
+  ) => Promise<TransportOutcome | void>;
+  sendSyncData: (payload: SyncPayload) => Promise<TransportOutcome | void>;
+  sendLogData: (uuid: string, data: Buffer) => Promise<void>;
+}
@@ -1,16 +1,32 @@
 import { createHash } from "node:crypto";
 
+import CardinalityLimiter, { OVERFLOW_BUCKET } from "./cardinalityLimiter.js";
+import type OtelMetrics from "./otelMetrics.js";
 import {
+  CardinalityLimits,
   ConsumerMethodPath,
   ValidationError,
+  ValidationErrorExtractor,
   ValidationErrorsItem,
 } from "./types.js";
+import {
+  BUILT_IN_EXTRACTORS,
+  extractValidationErrors,
+} from "./validationErrors.js";
 
 export default class ValidationErrorCounter {
+  public cardinalityLimiter: CardinalityLimiter;
+  public otelMetrics?: OtelMetrics;
+  public extractors: ValidationErrorExtractor[];
   private errorCounts: Map<string, number>;
   private errorDetails: Map<string, ConsumerMethodPath & ValidationError>;
 
-  constructor() {
+  constructor(
+    cardinalityLimits?: Partial<CardinalityLimits>,
+    extractors?: ValidationErrorExtractor[],
+  ) {
+    this.cardinalityLimiter = new CardinalityLimiter(cardinalityLimits);
+    this.extractors = [...(extractors ?? []), ...BUILT_IN_EXTRACTORS];
     this.errorCounts = new Map();
     this.errorDetails = new Map();
   }
@@ -18,14 +34,47 @@ export default class ValidationErrorCounter {
   public addValidationError(
     validationError: ConsumerMethodPath & ValidationError,
   ) {
-    const key = this.getKey(validationError);
+    const [limited, key] = this.limit(validationError);
+    validationError = limited;
     if (!this.errorDetails.has(key)) {
       this.errorDetails.set(key, validationError);
     }
     this.errorCounts.set(key, (this.errorCounts.get(key) || 0) + 1);
+    this.otelMetrics?.recordValidationError(validationError);
   }
 
-  public getAndResetValidationErrors() {
+  /** Adds the validation errors found in a 400 or 422 response body */
+  public addValidationErrorsFromBody(
+    requestInfo: ConsumerMethodPath,
+    body: unknown,
+  ) {
+    extractValidationErrors(body, this.extractors).forEach((error) => {
+      this.addValidationError({ ...requestInfo, ...error });
+    });
+  }
+
+  /** Adds validation errors counted by another process, e.g. a cluster worker */
+  public mergeValidationErrors(items: ValidationErrorsItem[]) {
+    items.forEach((item) => {
+      const [validationError, key] = this.limit({
+        consumer: item.consumer,
+        method: item.method,
+        path: item.path,
+        loc: item.loc.join("."),
+        msg: item.msg,
+        type: item.type,
+      });
+      if (!this.errorDetails.has(key)) {
+        this.errorDetails.set(key, validationError);
+      }
+      this.errorCounts.set(
+        key,
+        (this.errorCounts.get(key) || 0) + item.error_count,
+      );
+    });
+  }
+
+  public getValidationErrors() {
     const data: Array<ValidationErrorsItem> = [];
     this.errorCounts.forEach((count, key) => {
       const validationError = this.errorDetails.get(key);
@@ -41,11 +90,32 @@ export default class ValidationErrorCounter {
         });
       }
     });
+    return data;
+  }
+
+  public getAndResetValidationErrors() {
+    const data = this.getValidationErrors();
     this.errorCounts.clear();
     this.errorDetails.clear();
+    this.cardinalityLimiter.reset();
     return data;
   }
 
+  private limit(validationError: ConsumerMethodPath & ValidationError) {
+    return this.cardinalityLimiter.limitKey(
+      this.cardinalityLimiter.limit(validationError),
+      (item) => this.getKey(item),
+      (item) => ({
+        ...item,
+        consumer: item.consumer ? OVERFLOW_BUCKET : item.consumer,
+        path: OVERFLOW_BUCKET,
+        loc: OVERFLOW_BUCKET,
+        msg: OVERFLOW_BUCKET,
+        type: OVERFLOW_BUCKET,
+      }),
+    );
+  }
+
   private getKey(validationError: ConsumerMethodPath & ValidationError) {
     const hashInput = [
       validationError.consumer || "",
@@ -0,0 +1,251 @@
+import { Buffer } from "node:buffer";
+
+import { ValidationError, ValidationErrorExtractor } from "./types.js";
+
+const extractZodErrors: ValidationErrorExtractor = (body) => {
+  // Hono's zValidator responds with { success: false, error: ZodError }
+  const issues = body.error?.issues ?? body.issues;
+  if (!Array.isArray(issues)) {
+    return [];
+  }
+  return issues
+    .filter((issue: any) => Array.isArray(issue.path) && issue.code)
+    .map((issue: any) => ({
+      loc: issue.path.join("."),
+      msg: issue.message,
+      type: issue.code,
+    }));
+};
+
+const extractValibotErrors: ValidationErrorExtractor = (body) => {
+  if (!Array.isArray(body.issues)) {
+    return [];
+  }
+  return body.issues
+    .filter((issue: any) => issue.kind && issue.type && issue.message)
+    .map((issue: any) => ({
+      loc: (issue.path ?? []).map((item: any) => item.key).join("."),
+      msg: issue.message,
+      type: issue.type,
+    }));
+};
+
+const extractYupErrors: ValidationErrorExtractor = (body) => {
+  if (body.name !== "ValidationError" || !Array.isArray(body.errors)) {
+    return [];
+  }
+  const errors: any[] = body.inner?.length ? body.inner : [body];
+  return errors.map((error) => ({
+    loc: error.path ?? "",
+    msg: error.message,
+    type: error.type ?? "",
+  }));
+};
+
+const extractJoiErrors: ValidationErrorExtractor = (body) => {
+  const details = body.details ?? body.error?.details;
+  if (Array.isArray(details)) {
+    return details
+      .filter((detail: any) => Array.isArray(detail.path) && detail.message)
+      .map((detail: any) => ({
+        loc: detail.path.join("."),
+        msg: detail.message,
+        type: detail.type ?? "",
+      }));
+  }
+  // Hapi responds with { validation: { source, keys }, message }
+  const validation = body.validation;
+  if (validation?.source && Array.isArray(validation.keys) && body.message) {
+    return validation.keys.map((key: string) => ({
+      loc: `${validation.source}.${key}`,
+      msg: subsetJoiMessage(body.message, key),
+      type: "",
+    }));
+  }
+  return [];
+};
+
+const extractCelebrateErrors: ValidationErrorExtractor = (body) => {
+  if (!body.validation || typeof body.validation !== "object") {
+    return [];
+  }
+  const errors: ValidationError[] = [];
+  Object.values(body.validation).forEach((error: any) => {
+    if (error?.source && Array.isArray(error.keys) && error.message) {
+      error.keys.forEach((key: string) => {
+        errors.push({
+          loc: `${error.source}.${key}`,
+          msg: subsetJoiMessage(error.message, key),
+          type: "",
+        });
+      });
+    }
+  });
+  return errors;
+};
+
+const extractAjvErrors: ValidationErrorExtractor = (body) => {
+  const errors = Array.isArray(body) ? body : body.errors;
+  if (Array.isArray(errors)) {
+    return errors
+      .filter((error: any) => typeof error.instancePath === "string")
+      .map((error: any) => ({
+        loc: error.instancePath.split("/").filter(Boolean).join("."),
+        msg: error.message ?? "",
+        type: error.keyword ?? "",
+      }));
+  }
+  // Fastify responds with the errors formatted as a single message
+  if (
+    (!body.code || body.code === "FST_ERR_VALIDATION") &&
+    typeof body.message === "string"
+  ) {
+    return extractAjvErrorsFromMessage(body.message);
+  }
+  return [];
+};
+
+const extractClassValidatorErrors: ValidationErrorExtractor = (body) => {
+  // NestJS' ValidationPipe responds with { message: string[] }
+  const messages = Array.isArray(body) ? body : body.message;
+  if (!Array.isArray(messages)) {
+    return [];
+  }
+  return messages.flatMap((message: any) => {
+    if (typeof message === "string") {
+      return [{ loc: "", msg: message, type: "" }];
+    }
+    if (message?.property && message.constraints) {
+      return Object.entries(message.constraints).map(([type, msg]) => ({
+        loc: message.property,
+        msg: String(msg),
+        type,
+      }));
+    }
+    return [];
+  });
+};
+
+const extractExpressValidatorErrors: ValidationErrorExtractor = (body) => {
+  if (!Array.isArray(body.errors)) {
+    return [];
+  }
+  return body.errors
+    .filter(
+      (error: any) => error.location && error.path && error.msg && error.type,
+    )
+    .map((error: any) => ({
+      loc: `${error.location}.${error.path}`,
+      msg: error.msg,
+      type: error.type,
+    }));
+};
+
+const extractVineErrors: ValidationErrorExtractor = (body) => {
+  // AdonisJS' E_VALIDATION_ERROR has { messages }, responses have { errors }
+  const messages = body.messages ?? body.errors;
+  if (!Array.isArray(messages)) {
+    return [];
+  }
+  return messages
+    .filter((message: any) => message.field && message.rule)
+    .map((message: any) => ({
+      loc: message.field,
+      msg: message.message,
+      type: message.rule,
+    }));
+};
+
+const extractTypeBoxErrors: ValidationErrorExtractor = (body) => {
+  // Elysia responds with { type: "validation", on, property, message }
+  if (body.type !== "validation" || !body.on || !body.message) {
+    return [];
+  }
+  return [
+    {
+      loc: [body.on, ...(body.property ?? "").split("/")]
+        .filter(Boolean)
+        .join("."),
+      msg: body.message,
+      type: "",
+    },
+  ];
+};
+
+export const BUILT_IN_EXTRACTORS: ValidationErrorExtractor[] = [
+  extractZodErrors,
+  extractValibotErrors,
+  extractYupErrors,
+  extractJoiErrors,
+  extractCelebrateErrors,
+  extractExpressValidatorErrors,
+  extractVineErrors,
+  extractAjvErrors,
+  extractClassValidatorErrors,
+  extractTypeBoxErrors,
+];
+
+/**
+ * Runs the extractors against the body in order and returns the errors found
+ * by the first one that recognizes its format. The body can be parsed JSON,
+ * or a string or Buffer containing JSON.
+ */
+export function extractValidationErrors(
+  body: unknown,
+  extractors: ValidationErrorExtractor[] = BUILT_IN_EXTRACTORS,
+) {
+  if (typeof body === "string" || Buffer.isBuffer(body)) {
+    try {
+      body = JSON.parse(body.toString());
+    } catch {
+      return [];
+    }
+  }
+  if (!body || typeof body !== "object") {
+    return [];
+  }
+  for (const extractor of extractors) {
+    try {
+      const errors = extractor(body).filter(
+        (error) => typeof error.msg === "string",
+      );
+      if (errors.length > 0) {
+        return errors;
+      }
+    } catch {
+      // Ignore errors in extractors and try the next one
+    }
+  }
+  return [];
+}
+
+function extractAjvErrorsFromMessage(message: string): ValidationError[] {
+  const regex =
+    /(?<=^|, )((?:headers|params|query|querystring|body)[/.][^ ]+)(?= )/g;
+  const matches: { match: string; index: number }[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(message)) !== null) {
+    matches.push({ match: match[0], index: match.index });
+  }
+
+  return matches.map((m, i) => {
+    const endIndex =
+      i + 1 < matches.length ? matches[i + 1].index - 2 : message.length;
+    const matchSplit = m.match.split(/[/.]/);
+    if (matchSplit[0] === "querystring") {
+      matchSplit[0] = "query";
+    }
+    return {
+      loc: matchSplit.join("."),
+      msg: message.substring(m.index, endIndex),
+      type: "",
+    };
+  });
+}
+
+function subsetJoiMessage(message: string, key: string) {
+  const messageWithKey = message
+    .split(". ")
+    .find((message) => message.includes(`"${key}"`));
+  return messageWithKey ? messageWithKey : message;
+}
@@ -1,2 +1,11 @@
-export type { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
+export { flush, getClient } from "../common/client.js";
+export type {
+  ApitallyConfig,
+  ApitallyConsumer,
+  ApitallyTransport,
+  ClientStatus,
+  RequestTagsInput,
+  TransportOutcome,
+  ValidationErrorExtractor,
+} from "../common/types.js";
 export { default as apitallyPlugin } from "./plugin.js";
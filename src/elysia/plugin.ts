@@ -1,15 +1,23 @@
 import { Context, Elysia, StatusMap, ValidationError } from "elysia";
 import { AsyncLocalStorage } from "node:async_hooks";
-import { performance } from "node:perf_hooks";
 
 import { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
 import { parseContentLength } from "../common/headers.js";
+import type { OutboundRequestHandle } from "../common/outboundRequests.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertHeaders } from "../common/requestLogger.js";
-import { CapturedResponse, captureResponse } from "../common/response.js";
+import {
+  ABORTED_STATUS_CODE,
+  CapturedResponse,
+  captureResponse,
+  watchRequestAbort,
+} from "../common/response.js";
 import type { SpanHandle } from "../common/spanCollector.js";
-import { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
+import {
+  ApitallyConfig,
+  ApitallyConsumer,
+  RequestTagsInput,
+} from "../common/types.js";
 import { patchConsole, patchWinston } from "../loggers/index.js";
 import { getAppInfo } from "./utils.js";
 
@@ -21,6 +29,12 @@ const ERROR_SYMBOL = Symbol("apitally.error");
 const CLIENT_SYMBOL = Symbol("apitally.client");
 const REQUEST_SYMBOL = Symbol("apitally.request");
 const SPAN_HANDLE_SYMBOL = Symbol("apitally.spanHandle");
+const OUTBOUND_HANDLE_SYMBOL = Symbol("apitally.outboundHandle");
+const ABORT_TIME_SYMBOL = Symbol("apitally.abortTime");
+const ROUTE_SYMBOL = Symbol("apitally.route");
+const CONTEXT_SYMBOL = Symbol("apitally.context");
+const LOGS_SYMBOL = Symbol("apitally.logs");
+const LOGGED_SYMBOL = Symbol("apitally.logged");
 
 declare global {
   interface Request {
@@ -31,6 +45,12 @@ declare global {
     [ERROR_SYMBOL]?: Readonly<Error>;
     [CLIENT_SYMBOL]?: ApitallyClient;
     [SPAN_HANDLE_SYMBOL]?: SpanHandle;
+    [OUTBOUND_HANDLE_SYMBOL]?: OutboundRequestHandle;
+    [ABORT_TIME_SYMBOL]?: () => number | undefined;
+    [ROUTE_SYMBOL]?: string;
+    [CONTEXT_SYMBOL]?: ApitallyContext;
+    [LOGS_SYMBOL]?: LogRecord[];
+    [LOGGED_SYMBOL]?: boolean;
   }
 }
 
@@ -40,16 +60,111 @@ type ContextSet = Context["set"] & {
 
 interface ApitallyContext {
   consumer?: ApitallyConsumer | string;
+  tags?: RequestTagsInput;
 }
 
 export default function apitallyPlugin(config: ApitallyConfig) {
   const client = new ApitallyClient(config);
   const logsContext = new AsyncLocalStorage<LogRecord[]>();
 
-  if (client.requestLogger.enabled && client.requestLogger.config.captureLogs) {
+  client.whenCaptureLogsEnabled(() => {
     patchConsole(logsContext);
     patchWinston(logsContext);
-  }
+  });
+
+  const logRequest = (
+    request: Request,
+    {
+      route,
+      consumer,
+      tags,
+      statusCode,
+      responseTime,
+      responseHeaders,
+      capturedResponse,
+      error,
+      aborted,
+    }: {
+      route: string;
+      consumer?: ApitallyConsumer | null;
+      tags?: RequestTagsInput;
+      statusCode: number;
+      responseTime: number;
+      responseHeaders?: Headers | Record<string, any>;
+      capturedResponse?: CapturedResponse;
+      error?: Readonly<Error>;
+      aborted: boolean;
+    },
+  ) => {
+    if (request[LOGGED_SYMBOL]) {
+      return;
+    }
+    request[LOGGED_SYMBOL] = true;
+
+    const spanHandle = request[SPAN_HANDLE_SYMBOL];
+    spanHandle?.setName(`${request.method} ${route}`);
+    const spans = spanHandle?.end();
+    const traceId = spanHandle?.traceId;
+    const outboundRequests = request[OUTBOUND_HANDLE_SYMBOL]?.end();
+
+    const requestBody = request[REQUEST_BODY_SYMBOL];
+    const requestSize =
+      parseContentLength(request.headers.get("content-length")) ??
+      requestBody?.length;
+    const responseSize =
+      capturedResponse?.completed && !aborted
+        ? capturedResponse.size
+        : undefined;
+
+    client.requestCounter.addRequest({
+      consumer: consumer?.identifier,
+      method: request.method,
+      path: route,
+      statusCode,
+      responseTime,
+      requestSize,
+      responseSize,
+      tags,
+    });
+    client.outboundRequestCounter.addOutboundRequests(
+      {
+        consumer: consumer?.identifier,
+        method: request.method,
+        path: route,
+      },
+      outboundRequests,
+    );
+
+    if (client.requestLogger.enabled) {
+      client.requestLogger.logRequest(
+        {
+          timestamp: (Date.now() - responseTime) / 1000,
+          method: request.method,
+          path: route,
+          url: request.url,
+          headers: convertHeaders(
+            Object.fromEntries(request.headers.entries()),
+          ),
+          size: requestSize,
+          consumer: consumer?.identifier,
+          body: requestBody,
+        },
+        {
+          statusCode,
+          responseTime: responseTime / 1000,
+          headers: convertHeaders(responseHeaders),
+          size: responseSize,
+          body: capturedResponse?.body,
+          ...(aborted && { aborted }),
+        },
+        error,
+        request[LOGS_SYMBOL],
+        spans,
+        traceId,
+        outboundRequests,
+      );
+    }
+  };
 
   return (app: Elysia) => {
     const handler = app["~adapter"].handler;
@@ -155,14 +270,41 @@ export default function apitallyPlugin(config: ApitallyConfig) {
 
         request[CLIENT_SYMBOL] = client;
         request[START_TIME_SYMBOL] = performance.now();
+        request[ABORT_TIME_SYMBOL] = watchRequestAbort(request, (abortTime) => {
+          // Record the request right away if the client disconnects while it's
+          // still being handled
+          const route = request[ROUTE_SYMBOL];
+          if (route !== undefined && !(RESPONSE_SYMBOL in request)) {
+            const apitally = request[CONTEXT_SYMBOL];
+            const consumer = client.consumerRegistry.getConsumer(
+              apitally?.consumer,
+              () => ({ method: request.method, headers: request.headers }),
+            );
+            client.consumerRegistry.addOrUpdateConsumer(consumer);
+            logRequest(request, {
+              route,
+              consumer,
+              tags: apitally?.tags,
+              statusCode: ABORTED_STATUS_CODE,
+              responseTime: abortTime - request[START_TIME_SYMBOL]!,
+              aborted: true,
+            });
+          }
+        });
         (set as ContextSet)[REQUEST_SYMBOL] = request;
-        logsContext.enterWith([]);
+        const logs: LogRecord[] = [];
+        request[LOGS_SYMBOL] = logs;
+        logsContext.enterWith(logs);
 
         // Start span and enter the context for subsequent handlers
         const spanHandle = client.spanCollector.startSpan();
         request[SPAN_HANDLE_SYMBOL] = spanHandle;
         spanHandle.enterContext();
 
+        const outboundHandle = client.outboundRequestCollector.start();
+        request[OUTBOUND_HANDLE_SYMBOL] = outboundHandle;
+        outboundHandle.enterContext();
+
         // Capture request body
         if (
           client.requestLogger.enabled &&
@@ -186,23 +328,27 @@ export default function apitallyPlugin(config: ApitallyConfig) {
           }
         }
       })
+      .onTransform(({ request, route, apitally }) => {
+        if (CLIENT_SYMBOL in request) {
+          request[ROUTE_SYMBOL] = route;
+          request[CONTEXT_SYMBOL] = apitally;
+        }
+      })
       .onAfterResponse(async ({ request, set, route, apitally }) => {
-        if (!client.isEnabled() || request.method.toUpperCase() === "OPTIONS") {
+        if (
+          !client.isEnabled() ||
+          request.method.toUpperCase() === "OPTIONS" ||
+          request[LOGGED_SYMBOL]
+        ) {
           return;
         }
 
         const startTime = request[START_TIME_SYMBOL];
-        const responseTime = startTime ? performance.now() - startTime : 0;
-
-        const spanHandle = request[SPAN_HANDLE_SYMBOL];
-        spanHandle?.setName(`${request.method} ${route}`);
-        const spans = spanHandle?.end();
-        const traceId = spanHandle?.traceId;
-
-        const requestBody = request[REQUEST_BODY_SYMBOL];
-        const requestSize =
-          parseContentLength(request.headers.get("content-length")) ??
-          requestBody?.length;
+        const abortTime = request[ABORT_TIME_SYMBOL]?.();
+        const aborted = abortTime !== undefined;
+        const responseTime = startTime
+          ? (abortTime ?? performance.now()) - startTime
+          : 0;
 
         let responsePromise = request[RESPONSE_PROMISE_SYMBOL];
         let response = request[RESPONSE_SYMBOL];
@@ -228,7 +374,9 @@ export default function apitallyPlugin(config: ApitallyConfig) {
           }
         }
 
-        const statusCode = response?.status ?? getStatusCode(set) ?? 200;
+        const statusCode = aborted
+          ? ABORTED_STATUS_CODE
+          : (response?.status ?? getStatusCode(set) ?? 200);
 
         if (!response) {
           // Create empty fake response for errors without the toResponse method
@@ -244,77 +392,40 @@ export default function apitallyPlugin(config: ApitallyConfig) {
           });
         }
 
-        const consumer = apitally.consumer
-          ? consumerFromStringOrObject(apitally.consumer)
-          : null;
+        const consumer = client.consumerRegistry.getConsumer(
+          apitally.consumer,
+          () => ({ method: request.method, headers: request.headers }),
+        );
         client.consumerRegistry.addOrUpdateConsumer(consumer);
 
         // Log request when response has been fully captured
-        responsePromise?.then(async (capturedResponse) => {
-          const responseHeaders = response?.headers ?? set.headers;
-          const responseSize = capturedResponse.completed
-            ? capturedResponse.size
-            : undefined;
-
-          client.requestCounter.addRequest({
-            consumer: consumer?.identifier,
-            method: request.method,
-            path: route,
+        responsePromise?.then((capturedResponse) =>
+          logRequest(request, {
+            route,
+            consumer,
+            tags: apitally.tags,
             statusCode,
             responseTime,
-            requestSize,
-            responseSize,
-          });
-
-          if (client.requestLogger.enabled) {
-            const logs = logsContext.getStore();
-            client.requestLogger.logRequest(
-              {
-                timestamp: (Date.now() - responseTime) / 1000,
-                method: request.method,
-                path: route,
-                url: request.url,
-                headers: convertHeaders(
-                  Object.fromEntries(request.headers.entries()),
-                ),
-                size: requestSize,
-                consumer: consumer?.identifier,
-                body: requestBody,
-              },
-              {
-                statusCode,
-                responseTime: responseTime / 1000,
-                headers: convertHeaders(responseHeaders),
-                size: responseSize,
-                body: capturedResponse.body,
-              },
-              error,
-              logs,
-              spans,
-              traceId,
-            );
-          }
-        });
+            responseHeaders: response?.headers ?? set.headers,
+            capturedResponse,
+            error,
+            aborted,
+          }),
+        );
 
         // Handle validation errors
         if (
           (statusCode === 400 || statusCode === 422) &&
           error instanceof ValidationError
         ) {
-          try {
-            const parsedMessage = JSON.parse(error.message);
-            client.validationErrorCounter.addValidationError({
+          client.validationErrorCounter.addValidationErrorsFromBody(
+            {
               consumer: consumer?.identifier,
               method: request.method,
               path: route,
-              loc:
-                (parsedMessage.on ?? "") + "." + (parsedMessage.property ?? ""),
-              msg: parsedMessage.message,
-              type: "",
-            });
-          } catch (error) {
-            // ignore
-          }
+            },
+            error.message,
+          );
         }
 
         // Handle server errors
@@ -1,2 +1,16 @@
-export type { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
-export { setConsumer, useApitally } from "./middleware.js";
+export { flush, getClient } from "../common/client.js";
+export type {
+  ApitallyConfig,
+  ApitallyConsumer,
+  ApitallyTransport,
+  ClientStatus,
+  RequestTagsInput,
+  TransportOutcome,
+  ValidationErrorExtractor,
+} from "../common/types.js";
+export {
+  prometheusHandler,
+  setConsumer,
+  setRequestTags,
+  useApitally,
+} from "./middleware.js";
@@ -3,16 +3,17 @@ import { AsyncLocalStorage } from "node:async_hooks";
 import { performance } from "node:perf_hooks";
 
 import { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
 import { parseContentLength } from "../common/headers.js";
 import { getPackageVersion } from "../common/packageVersions.js";
+import { PROMETHEUS_CONTENT_TYPE } from "../common/prometheus.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertBody, convertHeaders } from "../common/requestLogger.js";
+import { ABORTED_STATUS_CODE } from "../common/response.js";
 import {
   ApitallyConfig,
   ApitallyConsumer,
+  RequestTagsInput,
   StartupData,
-  ValidationError,
 } from "../common/types.js";
 import {
   patchConsole,
@@ -32,6 +33,7 @@ import {
 declare module "express" {
   interface Request {
     apitallyConsumer?: ApitallyConsumer | string | null;
+    apitallyRequestTags?: RequestTagsInput;
     consumerIdentifier?: ApitallyConsumer | string | null; // For backwards compatibility
   }
 }
@@ -60,11 +62,11 @@ function getMiddleware(app: Express | Router, client: ApitallyClient) {
   let errorHandlerConfigured = false;
   const logsContext = new AsyncLocalStorage<LogRecord[]>();
 
-  if (client.requestLogger.config.captureLogs) {
+  client.whenCaptureLogsEnabled(() => {
     patchConsole(logsContext);
     patchWinston(logsContext);
     patchNestLogger(logsContext);
-  }
+  });
 
   return async (req: Request, res: Response, next: NextFunction) => {
     if (!client.isEnabled() || req.method.toUpperCase() === "OPTIONS") {
@@ -99,74 +101,58 @@ function getMiddleware(app: Express | Router, client: ApitallyClient) {
         };
 
         const spanHandle = client.spanCollector.startSpan();
+        const outboundHandle = client.outboundRequestCollector.start();
         spanHandle.runInContext(() => {
-          res.once("finish", () => {
+          const handleResponse = (aborted: boolean) => {
             try {
               const responseTime = performance.now() - startTime;
+              const statusCode = aborted ? ABORTED_STATUS_CODE : res.statusCode;
               const path = getRoutePath(req);
 
               spanHandle.setName(`${req.method} ${path}`);
               const spans = spanHandle.end();
               const traceId = spanHandle.traceId;
+              const outboundRequests = outboundHandle.end();
 
-              const consumer = getConsumer(req);
+              const consumer = getConsumer(req, client);
               client.consumerRegistry.addOrUpdateConsumer(consumer);
 
               const requestSize = parseContentLength(req.get("content-length"));
-              const responseSize = parseContentLength(
-                res.get("content-length"),
-              );
+              const responseSize = aborted
+                ? undefined
+                : parseContentLength(res.get("content-length"));
 
               if (path) {
                 client.requestCounter.addRequest({
                   consumer: consumer?.identifier,
                   method: req.method,
                   path,
-                  statusCode: res.statusCode,
+                  statusCode,
                   responseTime: responseTime,
                   requestSize,
                   responseSize,
+                  tags: req.apitallyRequestTags,
                 });
+                client.outboundRequestCounter.addOutboundRequests(
+                  { consumer: consumer?.identifier, method: req.method, path },
+                  outboundRequests,
+                );
 
                 if (
-                  (res.statusCode === 400 || res.statusCode === 422) &&
+                  (statusCode === 400 || statusCode === 422) &&
                   res.locals.body
                 ) {
-                  let jsonBody: any;
-                  try {
-                    jsonBody = JSON.parse(res.locals.body);
-                  } catch {
-                    // Ignore
-                  }
-                  if (jsonBody) {
-                    const validationErrors: ValidationError[] = [];
-                    if (validationErrors.length === 0) {
-                      validationErrors.push(
-                        ...extractExpressValidatorErrors(jsonBody),
-                      );
-                    }
-                    if (validationErrors.length === 0) {
-                      validationErrors.push(
-                        ...extractCelebrateErrors(jsonBody),
-                      );
-                    }
-                    if (validationErrors.length === 0) {
-                      validationErrors.push(
-                        ...extractNestValidationErrors(jsonBody),
-                      );
-                    }
-                    validationErrors.forEach((error) => {
-                      client.validationErrorCounter.addValidationError({
-                        consumer: consumer?.identifier,
-                        method: req.method,
-                        path,
-                        ...error,
-                      });
-                    });
-                  }
+                  client.validationErrorCounter.addValidationErrorsFromBody(
+                    {
+                      consumer: consumer?.identifier,
+                      method: req.method,
+                      path,
+                    },
+                    res.locals.body,
+                  );
                 }
 
-                if (res.statusCode === 500 && res.locals.serverError) {
+                if (statusCode === 500 && res.locals.serverError) {
                   const serverError = res.locals.serverError as Error;
                   client.serverErrorCounter.addServerError({
                     consumer: consumer?.identifier,
@@ -193,16 +179,20 @@ function getMiddleware(app: Express | Router, client: ApitallyClient) {
                     body: convertBody(req.body, req.get("content-type")),
                   },
                   {
-                    statusCode: res.statusCode,
+                    statusCode,
                     responseTime: responseTime / 1000,
                     headers: convertHeaders(res.getHeaders()),
                     size: responseSize,
-                    body: convertBody(res.locals.body, res.get("content-type")),
+                    body: aborted
+                      ? undefined
+                      : convertBody(res.locals.body, res.get("content-type")),
+                    ...(aborted && { aborted }),
                   },
                   res.locals.serverError,
                   logs,
                   spans,
                   traceId,
+                  outboundRequests,
                 );
               }
             } catch (error) {
@@ -211,13 +201,17 @@ function getMiddleware(app: Express | Router, client: ApitallyClient) {
                 { request: req, response: res, error },
               );
             }
-          });
+          };
 
+          res.once("finish", () => handleResponse(false));
           res.once("close", () => {
-            spanHandle.end();
+            // The response is closed without finishing if the client disconnects
+            if (!res.writableFinished) {
+              handleResponse(true);
+            }
           });
 
-          next();
+          outboundHandle.runInContext(next);
         });
       } catch (error) {
         client.logger.error("Error in Apitally middleware", {
@@ -305,94 +299,32 @@ export function setConsumer(
   req.apitallyConsumer = consumer || undefined;
 }
 
-function getConsumer(req: Request) {
-  if (req.apitallyConsumer) {
-    return consumerFromStringOrObject(req.apitallyConsumer);
-  } else if (req.consumerIdentifier) {
+export function setRequestTags(req: Request, tags: RequestTagsInput) {
+  req.apitallyRequestTags = { ...req.apitallyRequestTags, ...tags };
+}
+
+/** Returns a handler that serves the collected metrics in Prometheus format */
+export function prometheusHandler(name?: string) {
+  return (_req: Request, res: Response) => {
+    const exporter = ApitallyClient.getInstance(name).prometheusExporter;
+    res.set("Content-Type", PROMETHEUS_CONTENT_TYPE).send(exporter.render());
+  };
+}
+
+function getConsumer(req: Request, client: ApitallyClient) {
+  let consumer = req.apitallyConsumer;
+  if (!consumer && req.consumerIdentifier) {
     // For backwards compatibility
     process.emitWarning(
       "The consumerIdentifier property on the request object is deprecated. Use apitallyConsumer instead.",
       "DeprecationWarning",
     );
-    return consumerFromStringOrObject(req.consumerIdentifier);
-  }
-  return null;
-}
-
-function extractExpressValidatorErrors(responseBody: any) {
-  try {
-    const errors: ValidationError[] = [];
-    if (
-      responseBody &&
-      responseBody.errors &&
-      Array.isArray(responseBody.errors)
-    ) {
-      responseBody.errors.forEach((error: any) => {
-        if (error.location && error.path && error.msg && error.type) {
-          errors.push({
-            loc: `${error.location}.${error.path}`,
-            msg: error.msg,
-            type: error.type,
-          });
-        }
-      });
-    }
-    return errors;
-  } catch (error) {
-    return [];
-  }
-}
-
-function extractCelebrateErrors(responseBody: any) {
-  try {
-    const errors: ValidationError[] = [];
-    if (responseBody && responseBody.validation) {
-      Object.values(responseBody.validation).forEach((error: any) => {
-        if (
-          error.source &&
-          error.keys &&
-          Array.isArray(error.keys) &&
-          error.message
-        ) {
-          error.keys.forEach((key: string) => {
-            errors.push({
-              loc: `${error.source}.${key}`,
-              msg: subsetJoiMessage(error.message, key),
-              type: "",
-            });
-          });
-        }
-      });
-    }
-    return errors;
-  } catch (error) {
-    return [];
+    consumer = req.consumerIdentifier;
   }
-}
-
-function extractNestValidationErrors(responseBody: any) {
-  try {
-    const errors: ValidationError[] = [];
-    if (responseBody && Array.isArray(responseBody.message)) {
-      responseBody.message.forEach((message: any) => {
-        errors.push({
-          loc: "",
-          msg: message,
-          type: "",
-        });
-      });
-    }
-    return errors;
-  } catch (error) {
-    return [];
-  }
-}
-
-function subsetJoiMessage(message: string, key: string) {
-  const messageWithKey = message
-    .split(". ")
-    .find((message) => message.includes(`"${key}"`));
-  return messageWithKey ? messageWithKey : message;
+  return client.consumerRegistry.getConsumer(consumer, () => ({
+    method: req.method,
+    headers: req.headers,
+  }));
 }
 
 function getAppInfo(
@@ -1,2 +1,16 @@
-export type { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
-export { default as apitallyPlugin, setConsumer } from "./plugin.js";
+export { flush, getClient } from "../common/client.js";
+export type {
+  ApitallyConfig,
+  ApitallyConsumer,
+  ApitallyTransport,
+  ClientStatus,
+  RequestTagsInput,
+  TransportOutcome,
+  ValidationErrorExtractor,
+} from "../common/types.js";
+export {
+  default as apitallyPlugin,
+  prometheusHandler,
+  setConsumer,
+  setRequestTags,
+} from "./plugin.js";
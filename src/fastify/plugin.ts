@@ -8,17 +8,19 @@ import fp from "fastify-plugin";
 import { AsyncLocalStorage, AsyncResource } from "node:async_hooks";
 
 import { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
 import { parseContentLength } from "../common/headers.js";
+import type { OutboundRequestHandle } from "../common/outboundRequests.js";
 import { getPackageVersion } from "../common/packageVersions.js";
+import { PROMETHEUS_CONTENT_TYPE } from "../common/prometheus.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertBody, convertHeaders } from "../common/requestLogger.js";
+import { ABORTED_STATUS_CODE } from "../common/response.js";
 import type { SpanHandle } from "../common/spanCollector.js";
 import {
   ApitallyConfig,
   ApitallyConsumer,
   PathInfo,
-  ValidationError,
+  RequestTagsInput,
 } from "../common/types.js";
 import {
   patchConsole,
@@ -30,6 +32,8 @@ import {
 const LOGS_SYMBOL = Symbol("apitally.logs");
 const ASYNC_RESOURCE_SYMBOL = Symbol("apitally.asyncResource");
 const SPAN_HANDLE_SYMBOL = Symbol("apitally.spanHandle");
+const OUTBOUND_HANDLE_SYMBOL = Symbol("apitally.outboundHandle");
+const RESPONSE_HANDLED_SYMBOL = Symbol("apitally.responseHandled");
 
 declare module "fastify" {
   interface FastifyReply {
@@ -39,11 +43,14 @@ declare module "fastify" {
 
   interface FastifyRequest {
     apitallyConsumer?: ApitallyConsumer | string | null;
+    apitallyRequestTags?: RequestTagsInput | null;
     consumerIdentifier?: ApitallyConsumer | string | null; // For backwards compatibility
 
     [LOGS_SYMBOL]?: LogRecord[];
     [ASYNC_RESOURCE_SYMBOL]?: AsyncResource;
     [SPAN_HANDLE_SYMBOL]?: SpanHandle;
+    [OUTBOUND_HANDLE_SYMBOL]?: OutboundRequestHandle;
+    [RESPONSE_HANDLED_SYMBOL]?: boolean;
   }
 }
 
@@ -55,14 +62,15 @@ const apitallyPlugin: FastifyPluginAsync<ApitallyConfig> = async (
   const routes: PathInfo[] = [];
   const logsContext = new AsyncLocalStorage<LogRecord[]>();
 
-  if (client.requestLogger.config.captureLogs) {
+  client.whenCaptureLogsEnabled(() => {
     patchConsole(logsContext);
     patchWinston(logsContext);
     patchPinoLogger(fastify.log, logsContext);
     patchNestLogger(logsContext);
-  }
+  });
 
   fastify.decorateRequest("apitallyConsumer", null);
+  fastify.decorateRequest("apitallyRequestTags", null);
   fastify.decorateRequest("consumerIdentifier", null); // For backwards compatibility
   fastify.decorateReply("payload", null);
 
@@ -97,11 +105,21 @@ const apitallyPlugin: FastifyPluginAsync<ApitallyConfig> = async (
       logsContext.run(logs, () => {
         const spanHandle = client.spanCollector.startSpan();
         request[SPAN_HANDLE_SYMBOL] = spanHandle;
-        spanHandle.runInContext(() => {
-          const asyncResource = new AsyncResource("ApitallyContext");
-          request[ASYNC_RESOURCE_SYMBOL] = asyncResource;
-          asyncResource.runInAsyncScope(done, request.raw);
+        const outboundHandle = client.outboundRequestCollector.start();
+        request[OUTBOUND_HANDLE_SYMBOL] = outboundHandle;
+        reply.raw.once("close", () => {
+          // The response is closed without finishing if the client disconnects
+          if (!reply.raw.writableFinished) {
+            handleResponse(request, reply, true);
+          }
         });
+        spanHandle.runInContext(() =>
+          outboundHandle.runInContext(() => {
+            const asyncResource = new AsyncResource("ApitallyContext");
+            request[ASYNC_RESOURCE_SYMBOL] = asyncResource;
+            asyncResource.runInAsyncScope(done, request.raw);
+          }),
+        );
       });
     } else {
       done();
@@ -133,62 +151,49 @@ const apitallyPlugin: FastifyPluginAsync<ApitallyConfig> = async (
     done();
   });
 
-  fastify.addHook("onResponse", (request, reply, done) => {
+  const handleResponse = (
+    request: FastifyRequest,
+    reply: FastifyReply,
+    aborted: boolean,
+  ) => {
+    if (request[RESPONSE_HANDLED_SYMBOL]) {
+      return;
+    }
+    request[RESPONSE_HANDLED_SYMBOL] = true;
+
     if (client.isEnabled() && request.method.toUpperCase() !== "OPTIONS") {
       // Get path from routeOptions if available (from v4), otherwise fallback to deprecated routerPath
-      const consumer = getConsumer(request);
+      const consumer = getConsumer(request, client);
       const path =
         "routeOptions" in request
           ? (request as any).routeOptions.url
           : (request as any).routerPath;
       const requestSize = parseContentLength(request.headers["content-length"]);
-      const responseSize = parseContentLength(
-        reply.getHeader("content-length"),
-      );
+      const responseSize = aborted
+        ? undefined
+        : parseContentLength(reply.getHeader("content-length"));
       const responseTime = getResponseTime(reply);
+      const statusCode = aborted ? ABORTED_STATUS_CODE : reply.statusCode;
       client.consumerRegistry.addOrUpdateConsumer(consumer);
       client.requestCounter.addRequest({
         consumer: consumer?.identifier,
         method: request.method,
         path,
-        statusCode: reply.statusCode,
+        statusCode,
         responseTime,
         requestSize,
         responseSize,
+        tags: request.apitallyRequestTags,
       });
 
-      if (
-        (reply.statusCode === 400 || reply.statusCode === 422) &&
-        reply.payload
-      ) {
-        try {
-          const parsedPayload = JSON.parse(reply.payload);
-          const validationErrors: ValidationError[] = [];
-
-          if (
-            (!parsedPayload.code ||
-              parsedPayload.code === "FST_ERR_VALIDATION") &&
-            typeof parsedPayload.message === "string"
-          ) {
-            validationErrors.push(...extractAjvErrors(parsedPayload.message));
-          } else if (Array.isArray(parsedPayload.message)) {
-            validationErrors.push(
-              ...extractNestValidationErrors(parsedPayload.message),
-            );
-          }
-
-          validationErrors.forEach((error) => {
-            client.validationErrorCounter.addValidationError({
-              consumer: consumer?.identifier,
-              method: request.method,
-              path: path,
-              ...error,
-            });
-          });
-        } catch (error) {} // eslint-disable-line no-empty
+      if ((statusCode === 400 || statusCode === 422) && reply.payload) {
+        client.validationErrorCounter.addValidationErrorsFromBody(
+          { consumer: consumer?.identifier, method: request.method, path },
+          reply.payload,
+        );
       }
 
-      if (reply.statusCode === 500 && reply.serverError) {
+      if (statusCode === 500 && reply.serverError) {
         client.serverErrorCounter.addServerError({
           consumer: consumer?.identifier,
           method: request.method,
@@ -204,6 +209,12 @@ const apitallyPlugin: FastifyPluginAsync<ApitallyConfig> = async (
       const spans = spanHandle?.end();
       const traceId = spanHandle?.traceId;
 
+      const outboundRequests = request[OUTBOUND_HANDLE_SYMBOL]?.end();
+      client.outboundRequestCounter.addOutboundRequests(
+        { consumer: consumer?.identifier, method: request.method, path },
+        outboundRequests,
+      );
+
       if (client.requestLogger.enabled) {
         const logs = request[LOGS_SYMBOL];
         client.requestLogger.logRequest(
@@ -218,23 +229,30 @@ const apitallyPlugin: FastifyPluginAsync<ApitallyConfig> = async (
             body: convertBody(request.body, request.headers["content-type"]),
           },
           {
-            statusCode: reply.statusCode,
+            statusCode,
             responseTime: responseTime / 1000,
             headers: convertHeaders(reply.getHeaders()),
             size: responseSize,
-            body: convertBody(
-              reply.payload,
-              reply.getHeader("content-type")?.toString(),
-            ),
+            body: aborted
+              ? undefined
+              : convertBody(
+                  reply.payload,
+                  reply.getHeader("content-type")?.toString(),
+                ),
+            ...(aborted && { aborted }),
           },
           reply.serverError,
           logs,
           spans,
           traceId,
+          outboundRequests,
         );
       }
     }
+  };
 
+  fastify.addHook("onResponse", (request, reply, done) => {
+    handleResponse(request, reply, false);
     done();
   });
 };
@@ -274,18 +292,35 @@ export function setConsumer(
   request.apitallyConsumer = consumer || undefined;
 }
 
-function getConsumer(request: FastifyRequest) {
-  if (request.apitallyConsumer) {
-    return consumerFromStringOrObject(request.apitallyConsumer);
-  } else if (request.consumerIdentifier) {
+export function setRequestTags(
+  request: FastifyRequest,
+  tags: RequestTagsInput,
+) {
+  request.apitallyRequestTags = { ...request.apitallyRequestTags, ...tags };
+}
+
+/** Returns a route handler that serves the collected metrics in Prometheus format */
+export function prometheusHandler(name?: string) {
+  return async (_request: FastifyRequest, reply: FastifyReply) => {
+    const exporter = ApitallyClient.getInstance(name).prometheusExporter;
+    return reply.type(PROMETHEUS_CONTENT_TYPE).send(exporter.render());
+  };
+}
+
+function getConsumer(request: FastifyRequest, client: ApitallyClient) {
+  let consumer = request.apitallyConsumer;
+  if (!consumer && request.consumerIdentifier) {
     // For backwards compatibility
     process.emitWarning(
       "The consumerIdentifier property on the request object is deprecated. Use apitallyConsumer instead.",
       "DeprecationWarning",
     );
-    return consumerFromStringOrObject(request.consumerIdentifier);
+    consumer = request.consumerIdentifier;
   }
-  return null;
+  return client.consumerRegistry.getConsumer(consumer, () => ({
+    method: request.method,
+    headers: request.headers,
+  }));
 }
 
 function getResponseTime(reply: FastifyReply) {
@@ -297,48 +332,6 @@ function getResponseTime(reply: FastifyReply) {
   return 0;
 }
 
-function extractAjvErrors(message: string): ValidationError[] {
-  try {
-    const regex =
-      /(?<=^|, )((?:headers|params|query|querystring|body)[/.][^ ]+)(?= )/g;
-    const matches: { match: string; index: number }[] = [];
-    let match: RegExpExecArray | null;
-    while ((match = regex.exec(message)) !== null) {
-      matches.push({ match: match[0], index: match.index });
-    }
-
-    return matches.map((m, i) => {
-      const endIndex =
-        i + 1 < matches.length ? matches[i + 1].index - 2 : message.length;
-      const matchSplit = m.match.split(/[/.]/);
-      if (matchSplit[0] === "querystring") {
-        matchSplit[0] = "query";
-      }
-      return {
-        loc: matchSplit.join("."),
-        msg: message.substring(m.index, endIndex),
-        type: "",
-      };
-    });
-  } catch (error) {
-    return [];
-  }
-}
-
-function extractNestValidationErrors(message: any[]): ValidationError[] {
-  try {
-    return message
-      .filter((msg: any) => typeof msg === "string")
-      .map((msg: any) => ({
-        loc: "",
-        msg,
-        type: "",
-      }));
-  } catch (error) {
-    return [];
-  }
-}
-
 export { apitallyPlugin };
 
 export default fp(apitallyPlugin, {
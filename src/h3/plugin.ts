@@ -1,31 +1,49 @@
 import type { H3Event, HTTPError } from "h3";
 import { definePlugin, onError, onRequest, onResponse } from "h3";
 import { AsyncLocalStorage } from "node:async_hooks";
-import { performance } from "node:perf_hooks";
-import type { ZodError } from "zod";
 
 import { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
 import { mergeHeaders, parseContentLength } from "../common/headers.js";
+import type { OutboundRequestHandle } from "../common/outboundRequests.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertHeaders } from "../common/requestLogger.js";
-import { captureResponse } from "../common/response.js";
+import {
+  ABORTED_STATUS_CODE,
+  CapturedResponse,
+  captureResponse,
+  watchRequestAbort,
+} from "../common/response.js";
 import type { SpanHandle } from "../common/spanCollector.js";
-import { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
+import {
+  ApitallyConfig,
+  ApitallyConsumer,
+  RequestTagsInput,
+} from "../common/types.js";
 import { patchConsole, patchWinston } from "../loggers/index.js";
 import { getAppInfo } from "./utils.js";
 
 const REQUEST_TIMESTAMP_SYMBOL = Symbol("apitally.requestTimestamp");
 const REQUEST_BODY_SYMBOL = Symbol("apitally.requestBody");
 const SPAN_HANDLE_SYMBOL = Symbol("apitally.spanHandle");
+const OUTBOUND_HANDLE_SYMBOL = Symbol("apitally.outboundHandle");
+const ABORT_TIME_SYMBOL = Symbol("apitally.abortTime");
+const LOGS_SYMBOL = Symbol("apitally.logs");
+const RESPONDED_SYMBOL = Symbol("apitally.responded");
+const LOGGED_SYMBOL = Symbol("apitally.logged");
 
 declare module "h3" {
   interface H3EventContext {
     apitallyConsumer?: ApitallyConsumer | string;
+    apitallyRequestTags?: RequestTagsInput;
 
     [REQUEST_TIMESTAMP_SYMBOL]?: number;
     [REQUEST_BODY_SYMBOL]?: Buffer;
     [SPAN_HANDLE_SYMBOL]?: SpanHandle;
+    [OUTBOUND_HANDLE_SYMBOL]?: OutboundRequestHandle;
+    [ABORT_TIME_SYMBOL]?: () => number | undefined;
+    [LOGS_SYMBOL]?: LogRecord[];
+    [RESPONDED_SYMBOL]?: boolean;
+    [LOGGED_SYMBOL]?: boolean;
   }
 }
 
@@ -48,26 +66,112 @@ export const apitallyPlugin = definePlugin<ApitallyConfig>((app, config) => {
   };
   setTimeout(() => setStartupData(), 500);
 
-  if (client.requestLogger.config.captureLogs) {
+  client.whenCaptureLogsEnabled(() => {
     patchConsole(logsContext);
     patchWinston(logsContext);
-  }
+  });
 
-  const handleResponse = async (
+  const logRequest = (
     event: H3Event,
     response?: Response,
+    capturedResponse?: CapturedResponse,
     error?: HTTPError,
   ) => {
-    if (event.req.method.toUpperCase() === "OPTIONS") {
-      return response;
+    if (event.context[LOGGED_SYMBOL]) {
+      return;
     }
+    event.context[LOGGED_SYMBOL] = true;
 
     const startTime = event.context[REQUEST_TIMESTAMP_SYMBOL];
     const path = event.context.matchedRoute?.route;
+    const abortTime = event.context[ABORT_TIME_SYMBOL]?.();
+    const aborted = abortTime !== undefined;
+    const responseTime = startTime
+      ? (abortTime ?? performance.now()) - startTime
+      : 0;
+    const statusCode =
+      aborted || !response ? ABORTED_STATUS_CODE : response.status;
 
-    const consumer = getConsumer(event);
+    const consumer = getConsumer(event, client);
     client.consumerRegistry.addOrUpdateConsumer(consumer);
 
+    const spanHandle = event.context[SPAN_HANDLE_SYMBOL];
+    spanHandle?.setName(`${event.req.method} ${path}`);
+    const spans = spanHandle?.end();
+    const traceId = spanHandle?.traceId;
+    const outboundRequests = event.context[OUTBOUND_HANDLE_SYMBOL]?.end();
+
+    const responseSize =
+      capturedResponse?.completed && !aborted
+        ? capturedResponse.size
+        : undefined;
+    const requestSize = parseContentLength(
+      event.req.headers.get("content-length"),
+    );
+
+    if (path) {
+      client.requestCounter.addRequest({
+        consumer: consumer?.identifier,
+        method: event.req.method,
+        path,
+        statusCode,
+        responseTime,
+        requestSize,
+        responseSize,
+        tags: event.context.apitallyRequestTags,
+      });
+      client.outboundRequestCounter.addOutboundRequests(
+        { consumer: consumer?.identifier, method: event.req.method, path },
+        outboundRequests,
+      );
+    }
+
+    if (client.requestLogger.enabled) {
+      client.requestLogger.logRequest(
+        {
+          timestamp: (Date.now() - responseTime) / 1000,
+          method: event.req.method,
+          path,
+          url: event.req.url,
+          headers: convertHeaders(
+            Object.fromEntries(event.req.headers.entries()),
+          ),
+          size: requestSize,
+          consumer: consumer?.identifier,
+          body: event.context[REQUEST_BODY_SYMBOL],
+        },
+        {
+          statusCode,
+          responseTime: responseTime / 1000,
+          headers: convertHeaders(
+            response ? Object.fromEntries(response.headers.entries()) : {},
+          ),
+          size: responseSize,
+          body: capturedResponse?.body,
+          ...(aborted && { aborted }),
+        },
+        error?.cause instanceof Error ? error.cause : undefined,
+        event.context[LOGS_SYMBOL],
+        spans,
+        traceId,
+        outboundRequests,
+      );
+    }
+  };
+
+  const handleResponse = async (
+    event: H3Event,
+    response?: Response,
+    error?: HTTPError,
+  ) => {
+    if (event.req.method.toUpperCase() === "OPTIONS") {
+      return response;
+    }
+    event.context[RESPONDED_SYMBOL] = true;
+
+    const path = event.context.matchedRoute?.route;
+    const consumer = getConsumer(event, client);
+
     if (!response) {
       response = new Response(null, {
         status: error?.status || 500,
@@ -85,82 +189,19 @@ export const apitallyPlugin = definePlugin<ApitallyConfig>((app, config) => {
       maxBodySize: client.requestLogger.maxBodySize,
     });
 
-    responsePromise.then(async (capturedResponse) => {
-      const responseTime = startTime ? performance.now() - startTime : 0;
-
-      const spanHandle = event.context[SPAN_HANDLE_SYMBOL];
-      spanHandle?.setName(`${event.req.method} ${path}`);
-      const spans = spanHandle?.end();
-      const traceId = spanHandle?.traceId;
-
-      const responseSize = capturedResponse.completed
-        ? capturedResponse.size
-        : undefined;
-      const requestSize = parseContentLength(
-        event.req.headers.get("content-length"),
-      );
-
-      if (path) {
-        client.requestCounter.addRequest({
-          consumer: consumer?.identifier,
-          method: event.req.method,
-          path,
-          statusCode: response.status,
-          responseTime,
-          requestSize,
-          responseSize,
-        });
-      }
-
-      if (client.requestLogger.enabled) {
-        const logs = logsContext.getStore();
-        client.requestLogger.logRequest(
-          {
-            timestamp: (Date.now() - responseTime) / 1000,
-            method: event.req.method,
-            path,
-            url: event.req.url,
-            headers: convertHeaders(
-              Object.fromEntries(event.req.headers.entries()),
-            ),
-            size: requestSize,
-            consumer: consumer?.identifier,
-            body: event.context[REQUEST_BODY_SYMBOL],
-          },
-          {
-            statusCode: response.status,
-            responseTime: responseTime / 1000,
-            headers: convertHeaders(
-              Object.fromEntries(response.headers.entries()),
-            ),
-            size: responseSize,
-            body: capturedResponse.body,
-          },
-          error?.cause instanceof Error ? error.cause : undefined,
-          logs,
-          spans,
-          traceId,
-        );
-      }
-    });
+    responsePromise.then((capturedResponse) =>
+      logRequest(event, response, capturedResponse, error),
+    );
 
     if (
       path &&
-      error?.status === 400 &&
-      error.data &&
-      Array.isArray((error.data as any).issues)
+      (error?.status === 400 || error?.status === 422) &&
+      error.data
     ) {
-      const issues = (error.data as any).issues as ZodError["issues"];
-      issues.forEach((issue) => {
-        client.validationErrorCounter.addValidationError({
-          consumer: consumer?.identifier,
-          method: event.req.method,
-          path,
-          loc: issue.path.join("."),
-          msg: issue.message,
-          type: issue.code,
-        });
-      });
+      client.validationErrorCounter.addValidationErrorsFromBody(
+        { consumer: consumer?.identifier, method: event.req.method, path },
+        error.data,
+      );
     }
 
     if (path && error?.status === 500 && error.cause instanceof Error) {
@@ -180,13 +221,30 @@ export const apitallyPlugin = definePlugin<ApitallyConfig>((app, config) => {
   app
     .use(
       onRequest(async (event) => {
-        logsContext.enterWith([]);
+        const logs: LogRecord[] = [];
+        event.context[LOGS_SYMBOL] = logs;
+        logsContext.enterWith(logs);
         event.context[REQUEST_TIMESTAMP_SYMBOL] = performance.now();
+        event.context[ABORT_TIME_SYMBOL] = watchRequestAbort(event.req, () => {
+          // Record the request right away if the client disconnects while it's
+          // still being handled
+          if (
+            client.isEnabled() &&
+            !event.context[RESPONDED_SYMBOL] &&
+            event.req.method.toUpperCase() !== "OPTIONS"
+          ) {
+            logRequest(event);
+          }
+        });
 
         const spanHandle = client.spanCollector.startSpan();
         event.context[SPAN_HANDLE_SYMBOL] = spanHandle;
         spanHandle.enterContext();
 
+        const outboundHandle = client.outboundRequestCollector.start();
+        event.context[OUTBOUND_HANDLE_SYMBOL] = outboundHandle;
+        outboundHandle.enterContext();
+
         const requestContentType = event.req.headers.get("content-type");
         const requestSize =
           parseContentLength(event.req.headers.get("content-length")) ?? 0;
@@ -226,10 +284,16 @@ export function setConsumer(
   event.context.apitallyConsumer = consumer || undefined;
 }
 
-function getConsumer(event: H3Event) {
-  const consumer = event.context.apitallyConsumer;
-  if (consumer) {
-    return consumerFromStringOrObject(consumer);
-  }
-  return null;
+export function setRequestTags(event: H3Event, tags: RequestTagsInput) {
+  event.context.apitallyRequestTags = {
+    ...event.context.apitallyRequestTags,
+    ...tags,
+  };
+}
+
+function getConsumer(event: H3Event, client: ApitallyClient) {
+  return client.consumerRegistry.getConsumer(
+    event.context.apitallyConsumer,
+    () => ({ method: event.req.method, headers: event.req.headers }),
+  );
 }
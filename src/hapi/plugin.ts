@@ -3,11 +3,15 @@ import { AsyncLocalStorage } from "node:async_hooks";
 import { performance } from "node:perf_hooks";
 
 import { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
+import type { OutboundRequestHandle } from "../common/outboundRequests.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertHeaders } from "../common/requestLogger.js";
 import type { SpanHandle } from "../common/spanCollector.js";
-import { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
+import {
+  ApitallyConfig,
+  ApitallyConsumer,
+  RequestTagsInput,
+} from "../common/types.js";
 import {
   handleHapiRequestEvent,
   patchConsole,
@@ -23,6 +27,7 @@ const RESPONSE_BODY_SYMBOL = Symbol("apitally.responseBody");
 const RESPONSE_SIZE_SYMBOL = Symbol("apitally.responseSize");
 const LOGS_SYMBOL = Symbol("apitally.logs");
 const SPAN_HANDLE_SYMBOL = Symbol("apitally.spanHandle");
+const OUTBOUND_HANDLE_SYMBOL = Symbol("apitally.outboundHandle");
 
 declare module "@hapi/hapi" {
   interface Request {
@@ -33,7 +38,9 @@ declare module "@hapi/hapi" {
     [RESPONSE_SIZE_SYMBOL]?: number;
     [LOGS_SYMBOL]?: LogRecord[];
     [SPAN_HANDLE_SYMBOL]?: SpanHandle;
+    [OUTBOUND_HANDLE_SYMBOL]?: OutboundRequestHandle;
     apitallyConsumer?: ApitallyConsumer | string;
+    apitallyRequestTags?: RequestTagsInput;
   }
 
   interface ResponseObject {
@@ -46,24 +53,27 @@ export default function apitallyPlugin(config: ApitallyConfig) {
   const logsContext = new AsyncLocalStorage<LogRecord[]>();
   let pinoLoggerPatched = false;
 
-  if (client.requestLogger.enabled && client.requestLogger.config.captureLogs) {
+  client.whenCaptureLogsEnabled(() => {
     patchConsole(logsContext);
     patchWinston(logsContext);
-  }
+  });
 
   return {
     name: "apitally",
     register: async function (server: Server) {
-      server.ext("onPostStart", async () => {
-        if (
-          "logger" in server &&
-          client.requestLogger.enabled &&
-          client.requestLogger.config.captureLogs
-        ) {
-          pinoLoggerPatched = await patchPinoLogger(
-            (server as any).logger,
-            logsContext,
-          );
+      server.ext("onPostStart", () => {
+        if ("logger" in server) {
+          client.whenCaptureLogsEnabled(() => {
+            patchPinoLogger((server as any).logger, logsContext)
+              .then((patched) => {
+                pinoLoggerPatched = patched;
+              })
+              .catch((error) => {
+                client.logger.error("Error while patching Pino logger", {
+                  error,
+                });
+              });
+          });
         }
       });
 
@@ -95,14 +105,18 @@ export default function apitallyPlugin(config: ApitallyConfig) {
 
         request[START_TIME_SYMBOL] = performance.now();
 
-        // Patch the lifecycle function to run with span and logs context
+        // Patch the lifecycle function to run with span, logs and outbound requests context
         const spanHandle = client.spanCollector.startSpan();
+        const outboundHandle = client.outboundRequestCollector.start();
         const logs: LogRecord[] = [];
         request[SPAN_HANDLE_SYMBOL] = spanHandle;
+        request[OUTBOUND_HANDLE_SYMBOL] = outboundHandle;
         request[LOGS_SYMBOL] = logs;
         const lifecycle = (request as any)._lifecycle.bind(request);
         (request as any)._lifecycle = () =>
-          spanHandle.runInContext(() => logsContext.run(logs, lifecycle));
+          spanHandle.runInContext(() =>
+            outboundHandle.runInContext(() => logsContext.run(logs, lifecycle)),
+          );
 
         const captureRequestBody =
           client.requestLogger.enabled &&
@@ -179,6 +193,7 @@ export default function apitallyPlugin(config: ApitallyConfig) {
         );
         const spans = spanHandle?.end();
         const traceId = spanHandle?.traceId;
+        const outboundRequests = request[OUTBOUND_HANDLE_SYMBOL]?.end();
 
         const requestBody = request[REQUEST_BODY_SYMBOL];
         const requestSize = request[REQUEST_SIZE_SYMBOL];
@@ -229,9 +244,10 @@ export default function apitallyPlugin(config: ApitallyConfig) {
           responseSize = responseBody.length;
         }
 
-        const consumer = request.apitallyConsumer
-          ? consumerFromStringOrObject(request.apitallyConsumer)
-          : null;
+        const consumer = client.consumerRegistry.getConsumer(
+          request.apitallyConsumer,
+          () => ({ method: request.method, headers: request.headers }),
+        );
         client.consumerRegistry.addOrUpdateConsumer(consumer);
 
         if (request.route.path) {
@@ -243,7 +259,33 @@ export default function apitallyPlugin(config: ApitallyConfig) {
             responseTime,
             requestSize,
             responseSize,
+            tags: request.apitallyRequestTags,
           });
+          client.outboundRequestCounter.addOutboundRequests(
+            {
+              consumer: consumer?.identifier,
+              method: request.method,
+              path: request.route.path,
+            },
+            outboundRequests,
+          );
+
+          if (statusCode === 400 || statusCode === 422) {
+            // Boom errors created from Joi validation errors keep their details
+            const validationErrorBody = isBoom(response)
+              ? (response as any).details
+                ? response
+                : response.output?.payload
+              : response.source;
+            client.validationErrorCounter.addValidationErrorsFromBody(
+              {
+                consumer: consumer?.identifier,
+                method: request.method,
+                path: request.route.path,
+              },
+              validationErrorBody,
+            );
+          }
 
           if (statusCode === 500 && error) {
             client.serverErrorCounter.addServerError({
@@ -281,6 +323,7 @@ export default function apitallyPlugin(config: ApitallyConfig) {
             logs,
             spans,
             traceId,
+            outboundRequests,
           );
         }
 
@@ -296,3 +339,7 @@ export function setConsumer(
 ) {
   request.apitallyConsumer = consumer || undefined;
 }
+
+export function setRequestTags(request: Request, tags: RequestTagsInput) {
+  request.apitallyRequestTags = { ...request.apitallyRequestTags, ...tags };
+}
@@ -1,21 +1,30 @@
 import { Context, Hono } from "hono";
 import { MiddlewareHandler } from "hono/types";
 import { AsyncLocalStorage } from "node:async_hooks";
-import { performance } from "node:perf_hooks";
 
 import { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
 import { parseContentLength } from "../common/headers.js";
+import { PROMETHEUS_CONTENT_TYPE } from "../common/prometheus.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertHeaders } from "../common/requestLogger.js";
-import { captureResponse, getResponseJson } from "../common/response.js";
-import { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
+import {
+  ABORTED_STATUS_CODE,
+  CapturedResponse,
+  captureResponse,
+  watchRequestAbort,
+} from "../common/response.js";
+import {
+  ApitallyConfig,
+  ApitallyConsumer,
+  RequestTagsInput,
+} from "../common/types.js";
 import { patchConsole, patchWinston } from "../loggers/index.js";
-import { extractZodErrors, getAppInfo } from "./utils.js";
+import { getAppInfo } from "./utils.js";
 
 declare module "hono" {
   interface ContextVariableMap {
     apitallyConsumer?: ApitallyConsumer | string;
+    apitallyRequestTags?: RequestTagsInput;
   }
 }
 
@@ -39,10 +48,10 @@ export function useApitally(app: Hono, config: ApitallyConfig) {
 function getMiddleware(client: ApitallyClient): MiddlewareHandler {
   const logsContext = new AsyncLocalStorage<LogRecord[]>();
 
-  if (client.requestLogger.config.captureLogs) {
+  client.whenCaptureLogsEnabled(() => {
     patchConsole(logsContext);
     patchWinston(logsContext);
-  }
+  });
 
   return async (c, next) => {
     if (!client.isEnabled() || c.req.method.toUpperCase() === "OPTIONS") {
@@ -50,114 +59,178 @@ function getMiddleware(client: ApitallyClient): MiddlewareHandler {
       return;
     }
 
-    await logsContext.run([], async () => {
+    const logs: LogRecord[] = [];
+    await logsContext.run(logs, async () => {
       const timestamp = Date.now() / 1000;
       const startTime = performance.now();
-
       const spanHandle = client.spanCollector.startSpan();
-      await spanHandle.runInContext(next);
+      const outboundHandle = client.outboundRequestCollector.start();
+      let handlerFinished = false;
+      let handled = false;
 
-      const [newResponse, responsePromise] = captureResponse(c.res, {
-        captureBody:
-          (client.requestLogger.enabled &&
-            client.requestLogger.config.logResponseBody &&
-            client.requestLogger.isSupportedContentType(
-              c.res.headers.get("content-type"),
-            )) ||
-          (c.res.status === 400 &&
-            c.res.headers.get("content-type") === "application/json"),
-        maxBodySize: client.requestLogger.maxBodySize,
-      });
-      c.res = newResponse;
+      const handleResponse = async (
+        statusCode: number,
+        responseHeaders?: Headers,
+        capturedResponse?: CapturedResponse,
+        abortTime?: number,
+      ) => {
+        if (handled) {
+          return;
+        }
+        handled = true;
 
-      const statusCode = c.res.status;
-      const responseHeaders = c.res.headers;
+        try {
+          const aborted = abortTime !== undefined;
+          const responseTime = (abortTime ?? performance.now()) - startTime;
+          if (aborted) {
+            statusCode = ABORTED_STATUS_CODE;
+          }
 
-      responsePromise.then(async (capturedResponse) => {
-        const responseTime = performance.now() - startTime;
-
-        spanHandle.setName(`${c.req.method} ${c.req.routePath}`);
-        const spans = spanHandle.end();
-        const traceId = spanHandle.traceId;
-
-        const requestSize = parseContentLength(c.req.header("content-length"));
-        const responseSize = capturedResponse.completed
-          ? capturedResponse.size
-          : undefined;
-
-        const consumer = getConsumer(c);
-        client.consumerRegistry.addOrUpdateConsumer(consumer);
-
-        client.requestCounter.addRequest({
-          consumer: consumer?.identifier,
-          method: c.req.method,
-          path: c.req.routePath,
-          statusCode,
-          responseTime,
-          requestSize,
-          responseSize,
-        });
-
-        if (statusCode === 400 && capturedResponse.body) {
-          const responseJson = getResponseJson(capturedResponse.body);
-          const validationErrors = extractZodErrors(responseJson);
-          validationErrors.forEach((error) => {
-            client.validationErrorCounter.addValidationError({
-              consumer: consumer?.identifier,
-              method: c.req.method,
-              path: c.req.routePath,
-              ...error,
-            });
-          });
-        }
+          spanHandle.setName(`${c.req.method} ${c.req.routePath}`);
+          const spans = spanHandle.end();
+          const traceId = spanHandle.traceId;
+          const outboundRequests = outboundHandle.end();
 
-        if (c.error) {
-          client.serverErrorCounter.addServerError({
+          const requestSize = parseContentLength(
+            c.req.header("content-length"),
+          );
+          const responseSize =
+            capturedResponse?.completed && !aborted
+              ? capturedResponse.size
+              : undefined;
+
+          const consumer = getConsumer(c, client);
+          client.consumerRegistry.addOrUpdateConsumer(consumer);
+
+          client.requestCounter.addRequest({
             consumer: consumer?.identifier,
             method: c.req.method,
             path: c.req.routePath,
-            type: c.error.name,
-            msg: c.error.message,
-            traceback: c.error.stack || "",
+            statusCode,
+            responseTime,
+            requestSize,
+            responseSize,
+            tags: c.get("apitallyRequestTags"),
           });
-        }
+          client.outboundRequestCounter.addOutboundRequests(
+            {
+              consumer: consumer?.identifier,
+              method: c.req.method,
+              path: c.req.routePath,
+            },
+            outboundRequests,
+          );
 
-        if (client.requestLogger.enabled) {
-          let requestBody;
-          const responseBody = capturedResponse.body;
-          const requestContentType = c.req.header("content-type");
           if (
-            client.requestLogger.config.logRequestBody &&
-            client.requestLogger.isSupportedContentType(requestContentType)
+            (statusCode === 400 || statusCode === 422) &&
+            capturedResponse?.body
           ) {
-            requestBody = Buffer.from(await c.req.arrayBuffer());
+            client.validationErrorCounter.addValidationErrorsFromBody(
+              {
+                consumer: consumer?.identifier,
+                method: c.req.method,
+                path: c.req.routePath,
+              },
+              capturedResponse.body,
+            );
           }
-          const logs = logsContext.getStore();
-          client.requestLogger.logRequest(
-            {
-              timestamp,
+
+          if (c.error) {
+            client.serverErrorCounter.addServerError({
+              consumer: consumer?.identifier,
               method: c.req.method,
               path: c.req.routePath,
-              url: c.req.url,
-              headers: convertHeaders(c.req.header()),
-              size: requestSize,
-              consumer: consumer?.identifier,
-              body: requestBody,
-            },
-            {
-              statusCode: statusCode,
-              responseTime: responseTime / 1000,
-              headers: convertHeaders(responseHeaders),
-              size: responseSize,
-              body: responseBody,
-            },
-            c.error,
-            logs,
-            spans,
-            traceId,
+              type: c.error.name,
+              msg: c.error.message,
+              traceback: c.error.stack || "",
+            });
+          }
+
+          if (client.requestLogger.enabled) {
+            let requestBody;
+            const responseBody = capturedResponse?.body;
+            const requestContentType = c.req.header("content-type");
+            if (
+              client.requestLogger.config.logRequestBody &&
+              client.requestLogger.isSupportedContentType(requestContentType)
+            ) {
+              requestBody = Buffer.from(await c.req.arrayBuffer());
+            }
+            client.requestLogger.logRequest(
+              {
+                timestamp,
+                method: c.req.method,
+                path: c.req.routePath,
+                url: c.req.url,
+                headers: convertHeaders(c.req.header()),
+                size: requestSize,
+                consumer: consumer?.identifier,
+                body: requestBody,
+              },
+              {
+                statusCode: statusCode,
+                responseTime: responseTime / 1000,
+                headers: convertHeaders(responseHeaders),
+                size: responseSize,
+                body: responseBody,
+                ...(aborted && { aborted }),
+              },
+              c.error,
+              logs,
+              spans,
+              traceId,
+              outboundRequests,
+            );
+          }
+        } catch (error) {
+          client.logger.error(
+            "Error while logging request in Apitally middleware",
+            { context: c, error },
           );
         }
+      };
+
+      const getAbortTime = watchRequestAbort(c.req.raw, (abortTime) => {
+        // Record the request right away if the client disconnects while it's
+        // still being handled
+        if (!handlerFinished) {
+          handleResponse(ABORTED_STATUS_CODE, undefined, undefined, abortTime);
+        }
+      });
+
+      try {
+        await spanHandle.runInContext(() => outboundHandle.runInContext(next));
+      } finally {
+        handlerFinished = true;
+      }
+      if (handled) {
+        return;
+      }
+
+      const [newResponse, responsePromise] = captureResponse(c.res, {
+        captureBody:
+          (client.requestLogger.enabled &&
+            client.requestLogger.config.logResponseBody &&
+            client.requestLogger.isSupportedContentType(
+              c.res.headers.get("content-type"),
+            )) ||
+          ((c.res.status === 400 || c.res.status === 422) &&
+            c.res.headers.get("content-type") === "application/json"),
+        maxBodySize: client.requestLogger.maxBodySize,
       });
+      c.res = newResponse;
+
+      const responseStatusCode = c.res.status;
+      const responseHeaders = c.res.headers;
+
+      responsePromise.then((capturedResponse) =>
+        handleResponse(
+          responseStatusCode,
+          responseHeaders,
+          capturedResponse,
+          getAbortTime(),
+        ),
+      );
     });
   };
 }
@@ -169,10 +242,23 @@ export function setConsumer(
   c.set("apitallyConsumer", consumer || undefined);
 }
 
-function getConsumer(c: Context) {
-  const consumer = c.get("apitallyConsumer");
-  if (consumer) {
-    return consumerFromStringOrObject(consumer);
-  }
-  return null;
+export function setRequestTags(c: Context, tags: RequestTagsInput) {
+  c.set("apitallyRequestTags", { ...c.get("apitallyRequestTags"), ...tags });
+}
+
+/** Returns a handler that serves the collected metrics in Prometheus format */
+export function prometheusHandler(name?: string) {
+  return (c: Context) => {
+    const exporter = ApitallyClient.getInstance(name).prometheusExporter;
+    return c.body(exporter.render(), 200, {
+      "Content-Type": PROMETHEUS_CONTENT_TYPE,
+    });
+  };
+}
+
+function getConsumer(c: Context, client: ApitallyClient) {
+  return client.consumerRegistry.getConsumer(c.get("apitallyConsumer"), () => ({
+    method: c.req.method,
+    headers: c.req.raw.headers,
+  }));
 }
@@ -1,9 +1,8 @@
 import { Hono } from "hono";
 import { isMiddleware } from "hono/utils/handler";
-import type { ZodError } from "zod";
 
 import { getPackageVersion } from "../common/packageVersions.js";
-import { PathInfo, StartupData, ValidationError } from "../common/types.js";
+import { PathInfo, StartupData } from "../common/types.js";
 
 export function getAppInfo(app: Hono, appVersion?: string): StartupData {
   const versions: Array<[string, string]> = [];
@@ -46,27 +45,3 @@ export function listEndpoints(app: Hono) {
   });
   return endpoints;
 }
-
-export function extractZodErrors(responseJson: any) {
-  try {
-    const errors: ValidationError[] = [];
-    if (
-      responseJson &&
-      responseJson.success === false &&
-      responseJson.error &&
-      responseJson.error.name === "ZodError"
-    ) {
-      const zodError = responseJson.error as ZodError;
-      zodError.issues?.forEach((zodIssue) => {
-        errors.push({
-          loc: zodIssue.path.join("."),
-          msg: zodIssue.message,
-          type: zodIssue.code,
-        });
-      });
-    }
-    return errors;
-  } catch (error) {
-    return [];
-  }
-}
@@ -2,14 +2,16 @@ import Koa from "koa";
 import { AsyncLocalStorage } from "node:async_hooks";
 
 import { ApitallyClient } from "../common/client.js";
-import { consumerFromStringOrObject } from "../common/consumerRegistry.js";
 import { getPackageVersion } from "../common/packageVersions.js";
+import { PROMETHEUS_CONTENT_TYPE } from "../common/prometheus.js";
 import type { LogRecord } from "../common/requestLogger.js";
 import { convertBody, convertHeaders } from "../common/requestLogger.js";
+import { ABORTED_STATUS_CODE } from "../common/response.js";
 import {
   ApitallyConfig,
   ApitallyConsumer,
   PathInfo,
+  RequestTagsInput,
   StartupData,
 } from "../common/types.js";
 import { patchConsole, patchWinston } from "../loggers/index.js";
@@ -34,10 +36,10 @@ export function useApitally(app: Koa, config: ApitallyConfig) {
 function getMiddleware(client: ApitallyClient) {
   const logsContext = new AsyncLocalStorage<LogRecord[]>();
 
-  if (client.requestLogger.config.captureLogs) {
+  client.whenCaptureLogsEnabled(() => {
     patchConsole(logsContext);
     patchWinston(logsContext);
-  }
+  });
 
   return async (ctx: Koa.Context, next: Koa.Next) => {
     if (!client.isEnabled() || ctx.request.method.toUpperCase() === "OPTIONS") {
@@ -45,31 +47,26 @@ function getMiddleware(client: ApitallyClient) {
       return;
     }
 
-    await logsContext.run([], async () => {
+    const logs: LogRecord[] = [];
+    await logsContext.run(logs, async () => {
       let path: string | undefined;
       let statusCode: number | undefined;
       let serverError: Error | undefined;
+      let handled = false;
       const startTime = performance.now();
       const spanHandle = client.spanCollector.startSpan();
-      try {
-        await spanHandle.runInContext(next);
-      } catch (error: any) {
-        path = getPath(ctx);
-        statusCode = error.statusCode || error.status || 500;
-        if (path && statusCode === 500 && error instanceof Error) {
-          serverError = error;
-          client.serverErrorCounter.addServerError({
-            consumer: getConsumer(ctx)?.identifier,
-            method: ctx.request.method,
-            path,
-            type: error.name,
-            msg: error.message,
-            traceback: error.stack || "",
-          });
+      const outboundHandle = client.outboundRequestCollector.start();
+
+      const handleResponse = (aborted: boolean) => {
+        if (handled) {
+          return;
         }
-        throw error;
-      } finally {
+        handled = true;
+
         const responseTime = performance.now() - startTime;
+        if (aborted) {
+          statusCode = ABORTED_STATUS_CODE;
+        }
 
         if (!path) {
           path = getPath(ctx);
@@ -78,8 +75,9 @@ function getMiddleware(client: ApitallyClient) {
         spanHandle.setName(`${ctx.request.method} ${path}`);
         const spans = spanHandle.end();
         const traceId = spanHandle.traceId;
+        const outboundRequests = outboundHandle.end();
 
-        const consumer = getConsumer(ctx);
+        const consumer = getConsumer(ctx, client);
         client.consumerRegistry.addOrUpdateConsumer(consumer);
 
         if (path) {
@@ -91,8 +89,31 @@ function getMiddleware(client: ApitallyClient) {
               statusCode: statusCode || ctx.response.status,
               responseTime,
               requestSize: ctx.request.length,
-              responseSize: ctx.response.length,
+              responseSize: aborted ? undefined : ctx.response.length,
+              tags: ctx.state.apitallyRequestTags,
             });
+            client.outboundRequestCounter.addOutboundRequests(
+              {
+                consumer: consumer?.identifier,
+                method: ctx.request.method,
+                path,
+              },
+              outboundRequests,
+            );
+            // Errors thrown by validation libraries are handled above
+            if (
+              statusCode === undefined &&
+              (ctx.response.status === 400 || ctx.response.status === 422)
+            ) {
+              client.validationErrorCounter.addValidationErrorsFromBody(
+                {
+                  consumer: consumer?.identifier,
+                  method: ctx.request.method,
+                  path,
+                },
+                ctx.response.body,
+              );
+            }
           } catch (error) {
             client.logger.error(
               "Error while logging request in Apitally middleware.",
@@ -102,7 +123,6 @@ function getMiddleware(client: ApitallyClient) {
         }
 
         if (client.requestLogger.enabled) {
-          const logs = logsContext.getStore();
           client.requestLogger.logRequest(
             {
               timestamp: Date.now() / 1000,
@@ -121,18 +141,63 @@ function getMiddleware(client: ApitallyClient) {
               statusCode: statusCode || ctx.response.status,
               responseTime: responseTime / 1000,
               headers: convertHeaders(ctx.response.headers),
-              size: ctx.response.length,
-              body: convertBody(
-                ctx.response.body,
-                ctx.response.get("content-type"),
-              ),
+              size: aborted ? undefined : ctx.response.length,
+              body: aborted
+                ? undefined
+                : convertBody(
+                    ctx.response.body,
+                    ctx.response.get("content-type"),
+                  ),
+              ...(aborted && { aborted }),
             },
             serverError,
             logs,
             spans,
             traceId,
+            outboundRequests,
+          );
+        }
+      };
+
+      ctx.res.once("close", () => {
+        // The response is closed without finishing if the client disconnects
+        if (!ctx.res.writableFinished) {
+          handleResponse(true);
+        }
+      });
+
+      try {
+        await spanHandle.runInContext(() => outboundHandle.runInContext(next));
+      } catch (error: any) {
+        path = getPath(ctx);
+        statusCode = error.statusCode || error.status || 500;
+        if (handled) {
+          throw error;
+        }
+        if (path && statusCode === 500 && error instanceof Error) {
+          serverError = error;
+          client.serverErrorCounter.addServerError({
+            consumer: getConsumer(ctx, client)?.identifier,
+            method: ctx.request.method,
+            path,
+            type: error.name,
+            msg: error.message,
+            traceback: error.stack || "",
+          });
+        }
+        if (path && (statusCode === 400 || statusCode === 422)) {
+          client.validationErrorCounter.addValidationErrorsFromBody(
+            {
+              consumer: getConsumer(ctx, client)?.identifier,
+              method: ctx.request.method,
+              path,
+            },
+            error,
           );
         }
+        throw error;
+      } finally {
+        handleResponse(false);
       }
     });
   };
@@ -149,18 +214,33 @@ export function setConsumer(
   ctx.state.apitallyConsumer = consumer || undefined;
 }
 
-function getConsumer(ctx: Koa.Context) {
-  if (ctx.state.apitallyConsumer) {
-    return consumerFromStringOrObject(ctx.state.apitallyConsumer);
-  } else if (ctx.state.consumerIdentifier) {
+export function setRequestTags(ctx: Koa.Context, tags: RequestTagsInput) {
+  ctx.state.apitallyRequestTags = { ...ctx.state.apitallyRequestTags, ...tags };
+}
+
+/** Returns a middleware that serves the collected metrics in Prometheus format */
+export function prometheusHandler(name?: string) {
+  return (ctx: Koa.Context) => {
+    const exporter = ApitallyClient.getInstance(name).prometheusExporter;
+    ctx.type = PROMETHEUS_CONTENT_TYPE;
+    ctx.body = exporter.render();
+  };
+}
+
+function getConsumer(ctx: Koa.Context, client: ApitallyClient) {
+  let consumer = ctx.state.apitallyConsumer;
+  if (!consumer && ctx.state.consumerIdentifier) {
     // For backwards compatibility
     process.emitWarning(
       "The consumerIdentifier property on the ctx.state object is deprecated. Use apitallyConsumer instead.",
       "DeprecationWarning",
     );
-    return consumerFromStringOrObject(ctx.state.consumerIdentifier);
+    consumer = ctx.state.consumerIdentifier;
   }
-  return null;
+  return client.consumerRegistry.getConsumer(consumer, () => ({
+    method: ctx.request.method,
+    headers: ctx.request.headers,
+  }));
 }
 
 function getAppInfo(app: Koa, appVersion?: string): StartupData {
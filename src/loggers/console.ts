@@ -2,16 +2,17 @@ import { AsyncLocalStorage } from "node:async_hooks";
 import { format } from "node:util";
 
 import type { LogRecord } from "../common/requestLogger.js";
+import { getLogsStores } from "./utils.js";
 
 type LogLevel = "log" | "warn" | "error" | "info" | "debug";
 
 const MAX_BUFFER_SIZE = 1000;
 
 let isPatched = false;
-let globalLogsContext: AsyncLocalStorage<LogRecord[]>;
+const logsContexts = new Set<AsyncLocalStorage<LogRecord[]>>();
 
 export function patchConsole(logsContext: AsyncLocalStorage<LogRecord[]>) {
-  globalLogsContext = logsContext;
+  logsContexts.add(logsContext);
 
   if (isPatched) {
     return;
@@ -30,13 +31,14 @@ export function patchConsole(logsContext: AsyncLocalStorage<LogRecord[]>) {
 }
 
 function captureLog(level: LogLevel, args: any[]) {
-  const logs = globalLogsContext?.getStore();
-  if (logs && logs.length < MAX_BUFFER_SIZE) {
-    logs.push({
+  const stores = getLogsStores(logsContexts, MAX_BUFFER_SIZE);
+  if (stores.length > 0) {
+    const record = {
       timestamp: Date.now() / 1000,
       logger: "console",
       level,
       message: format(...args),
-    });
+    };
+    stores.forEach((logs) => logs.push(record));
   }
 }
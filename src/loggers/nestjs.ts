@@ -1,19 +1,19 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 
 import type { LogRecord } from "../common/requestLogger.js";
-import { formatMessage } from "./utils.js";
+import { formatMessage, getLogsStores } from "./utils.js";
 
 type LogLevel = "log" | "error" | "warn" | "debug" | "verbose" | "fatal";
 
 const MAX_BUFFER_SIZE = 1000;
 
 let isPatched = false;
-let globalLogsContext: AsyncLocalStorage<LogRecord[]>;
+const logsContexts = new Set<AsyncLocalStorage<LogRecord[]>>();
 
 export async function patchNestLogger(
   logsContext: AsyncLocalStorage<LogRecord[]>,
 ) {
-  globalLogsContext = logsContext;
+  logsContexts.add(logsContext);
 
   if (isPatched) {
     return;
@@ -55,13 +55,14 @@ export async function patchNestLogger(
 }
 
 function captureLog(level: LogLevel, args: any[], context?: string) {
-  const logs = globalLogsContext?.getStore();
-  if (logs && logs.length < MAX_BUFFER_SIZE) {
-    logs.push({
+  const stores = getLogsStores(logsContexts, MAX_BUFFER_SIZE);
+  if (stores.length > 0) {
+    const record = {
       timestamp: Date.now() / 1000,
       logger: context,
       level,
       message: formatMessage(args[0], ...args.slice(1)),
-    });
+    };
+    stores.forEach((logs) => logs.push(record));
   }
 }
@@ -1,11 +1,12 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 
 import type { LogRecord } from "../common/requestLogger.js";
-import { formatMessage, removeKeys } from "./utils.js";
+import { formatMessage, getLogsStores, removeKeys } from "./utils.js";
 
 const MAX_BUFFER_SIZE = 1000;
 
 const originalStreamSym = Symbol.for("apitally.originalStream");
+const logsContextsSym = Symbol.for("apitally.logsContexts");
 const logLevelMap: Record<number, string> = {
   10: "trace",
   20: "debug",
@@ -39,12 +40,16 @@ export async function patchPinoLogger(
     if (!(originalStreamSym in logger)) {
       logger[originalStreamSym] = logger[streamSym];
     }
+    if (!(logsContextsSym in logger)) {
+      logger[logsContextsSym] = new Set<AsyncLocalStorage<LogRecord[]>>();
+    }
+    logger[logsContextsSym].add(logsContext);
 
     const originalStream = logger[originalStreamSym];
     if (originalStream) {
       const pino = await import(/* webpackIgnore: true */ "pino");
       const captureStream = new ApitallyLogCaptureStream(
-        logsContext,
+        logger[logsContextsSym],
         logger[messageKeySym],
       );
       logger[streamSym] = pino.default.multistream(
@@ -69,17 +74,20 @@ function filterLogs(obj: any, messageKey: string) {
 }
 
 class ApitallyLogCaptureStream {
-  private logsContext: AsyncLocalStorage<LogRecord[]>;
+  private logsContexts: Set<AsyncLocalStorage<LogRecord[]>>;
   private messageKey: string;
 
-  constructor(logsContext: AsyncLocalStorage<LogRecord[]>, messageKey: string) {
-    this.logsContext = logsContext;
+  constructor(
+    logsContexts: Set<AsyncLocalStorage<LogRecord[]>>,
+    messageKey: string,
+  ) {
+    this.logsContexts = logsContexts;
     this.messageKey = messageKey;
   }
 
   write(msg: string): void {
-    const logs = this.logsContext.getStore();
-    if (!logs || !msg || logs.length >= MAX_BUFFER_SIZE) {
+    const stores = getLogsStores(this.logsContexts, MAX_BUFFER_SIZE);
+    if (stores.length === 0 || !msg) {
       return;
     }
 
@@ -118,11 +126,12 @@ class ApitallyLogCaptureStream {
       const rest = removeKeys(obj, ignoreKeys);
       const formattedMessage = formatMessage(message, rest);
       if (formattedMessage) {
-        logs.push({
+        const record = {
           timestamp: this.convertTime(obj.time),
           level: logLevelMap[obj.level] || "info",
           message: formattedMessage,
-        });
+        };
+        stores.forEach((logs) => logs.push(record));
       }
     } catch (e) {
       // ignore
@@ -1,5 +1,8 @@
+import { AsyncLocalStorage } from "node:async_hooks";
 import { format } from "node:util";
 
+import type { LogRecord } from "../common/requestLogger.js";
+
 export function formatMessage(message: any, ...args: any[]) {
   return [message, ...args]
     .map(formatArg)
@@ -7,6 +10,20 @@ export function formatMessage(message: any, ...args: any[]) {
     .join("\n");
 }
 
+export function getLogsStores(
+  logsContexts: Iterable<AsyncLocalStorage<LogRecord[]>>,
+  maxSize: number,
+) {
+  const stores: LogRecord[][] = [];
+  for (const logsContext of logsContexts) {
+    const logs = logsContext.getStore();
+    if (logs && logs.length < maxSize) {
+      stores.push(logs);
+    }
+  }
+  return stores;
+}
+
 export function removeKeys(obj: any, keys: string[]) {
   return Object.fromEntries(
     Object.entries(obj).filter(([key]) => !keys.includes(key)),
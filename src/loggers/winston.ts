@@ -1,17 +1,17 @@
 import { AsyncLocalStorage } from "node:async_hooks";
 
 import type { LogRecord } from "../common/requestLogger.js";
-import { formatMessage, removeKeys } from "./utils.js";
+import { formatMessage, getLogsStores, removeKeys } from "./utils.js";
 
 const MAX_BUFFER_SIZE = 1000;
 
 let isPatched = false;
-let globalLogsContext: AsyncLocalStorage<LogRecord[]>;
+const logsContexts = new Set<AsyncLocalStorage<LogRecord[]>>();
 
 export async function patchWinston(
   logsContext: AsyncLocalStorage<LogRecord[]>,
 ) {
-  globalLogsContext = logsContext;
+  logsContexts.add(logsContext);
 
   if (isPatched) {
     return;
@@ -37,8 +37,8 @@ export async function patchWinston(
 }
 
 function captureLog(info: any) {
-  const logs = globalLogsContext?.getStore();
-  if (!logs || !info || logs.length >= MAX_BUFFER_SIZE) {
+  const stores = getLogsStores(logsContexts, MAX_BUFFER_SIZE);
+  if (stores.length === 0 || !info) {
     return;
   }
 
@@ -46,11 +46,12 @@ function captureLog(info: any) {
     const rest = removeKeys(info, ["timestamp", "level", "message", "splat"]);
     const formattedMessage = formatMessage(info.message, rest);
     if (formattedMessage) {
-      logs.push({
+      const record = {
         timestamp: parseTimestamp(info.timestamp),
         level: info.level || "info",
         message: formattedMessage.trim(),
-      });
+      };
+      stores.forEach((logs) => logs.push(record));
     }
   } catch (e) {
     // ignore
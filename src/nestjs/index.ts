@@ -7,8 +7,21 @@ import {
 } from "@nestjs/common";
 import { catchError, throwError } from "rxjs";
 
-import type { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
-export type { ApitallyConfig, ApitallyConsumer } from "../common/types.js";
+import type {
+  ApitallyConfig,
+  ApitallyConsumer,
+  RequestTagsInput,
+} from "../common/types.js";
+export { flush, getClient } from "../common/client.js";
+export type {
+  ApitallyConfig,
+  ApitallyConsumer,
+  ApitallyTransport,
+  ClientStatus,
+  RequestTagsInput,
+  TransportOutcome,
+  ValidationErrorExtractor,
+} from "../common/types.js";
 
 let setConsumerFn:
   | ((
@@ -16,6 +29,8 @@ let setConsumerFn:
       consumer: ApitallyConsumer | string | null | undefined,
     ) => void)
   | null = null;
+let setRequestTagsFn: ((request: any, tags: RequestTagsInput) => void) | null =
+  null;
 
 export async function useApitally(
   app: INestApplication,
@@ -30,12 +45,16 @@ export async function useApitally(
     : "express";
 
   if (platform === "express") {
-    const { useApitally, setConsumer } = await import("../express/index.js");
+    const { useApitally, setConsumer, setRequestTags } =
+      await import("../express/index.js");
     setConsumerFn = setConsumer;
+    setRequestTagsFn = setRequestTags;
     useApitally(instance, config);
   } else if (platform === "fastify") {
-    const { apitallyPlugin, setConsumer } = await import("../fastify/index.js");
+    const { apitallyPlugin, setConsumer, setRequestTags } =
+      await import("../fastify/index.js");
     setConsumerFn = setConsumer;
+    setRequestTagsFn = setRequestTags;
     await instance.register(apitallyPlugin, config);
   }
 
@@ -51,6 +70,12 @@ export function setConsumer(
   }
 }
 
+export function setRequestTags(request: any, tags: RequestTagsInput) {
+  if (setRequestTagsFn) {
+    setRequestTagsFn(request, tags);
+  }
+}
+
 @Injectable()
 class ApitallyInterceptor implements NestInterceptor {
   constructor(private readonly platform: "express" | "fastify") {}
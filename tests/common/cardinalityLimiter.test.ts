@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+
+import { OVERFLOW_BUCKET } from "../../src/common/cardinalityLimiter.js";
+import RequestCounter from "../../src/common/requestCounter.js";
+import ServerErrorCounter from "../../src/common/serverErrorCounter.js";
+
+describe("Cardinality limiter", () => {
+  it("Overflow buckets for requests", () => {
+    const requestCounter = new RequestCounter({ maxConsumers: 2, maxPaths: 2 });
+    for (let i = 0; i < 4; i++) {
+      requestCounter.addRequest({
+        consumer: `consumer${i}`,
+        method: "GET",
+        path: "/items",
+        statusCode: 200,
+        responseTime: 10,
+      });
+    }
+    for (let i = 0; i < 3; i++) {
+      requestCounter.addRequest({
+        method: "GET",
+        path: `/items/${i}`,
+        statusCode: 200,
+        responseTime: 10,
+      });
+    }
+    // Repeated requests with an overflowed key are counted as one key
+    requestCounter.addRequest({
+      method: "GET",
+      path: "/items/2",
+      statusCode: 200,
+      responseTime: 10,
+    });
+
+    const requests = requestCounter.getAndResetRequests();
+    expect(requests.map((r) => [r.consumer, r.path, r.request_count])).toEqual([
+      ["consumer0", "/items", 1],
+      ["consumer1", "/items", 1],
+      [OVERFLOW_BUCKET, "/items", 2],
+      [null, "/items/0", 1],
+      [null, OVERFLOW_BUCKET, 3],
+    ]);
+    expect(requestCounter.cardinalityLimiter.getAndResetOverflowCount()).toBe(
+      4,
+    );
+    expect(requestCounter.cardinalityLimiter.getAndResetOverflowCount()).toBe(
+      0,
+    );
+
+    // Limits apply per sync interval
+    requestCounter.addRequest({
+      consumer: "consumer3",
+      method: "GET",
+      path: "/items/2",
+      statusCode: 200,
+      responseTime: 10,
+    });
+    const [request] = requestCounter.getAndResetRequests();
+    expect(request.consumer).toBe("consumer3");
+    expect(request.path).toBe("/items/2");
+  });
+
+  it("Overflow buckets for server errors", () => {
+    const serverErrorCounter = new ServerErrorCounter({ maxPaths: 1 });
+    for (const path of ["/a", "/b"]) {
+      serverErrorCounter.addServerError({
+        method: "GET",
+        path,
+        type: "Error",
+        msg: "test",
+        traceback: "",
+      });
+    }
+
+    const serverErrors = serverErrorCounter.getAndResetServerErrors();
+    expect(serverErrors.map((e) => e.path)).toEqual(["/a", OVERFLOW_BUCKET]);
+    expect(
+      serverErrorCounter.cardinalityLimiter.getAndResetOverflowCount(),
+    ).toBe(1);
+  });
+
+  it("Overflow bucket for combined keys", () => {
+    const requestCounter = new RequestCounter({ maxKeys: 4 });
+    for (const consumer of ["a", "b", "c"]) {
+      for (const path of ["/a", "/b"]) {
+        requestCounter.addRequest({
+          consumer,
+          method: "GET",
+          path,
+          statusCode: 200,
+          responseTime: 10,
+          tags: { region: consumer },
+        });
+      }
+    }
+
+    const requests = requestCounter.getAndResetRequests();
+    expect(
+      requests.map((r) => [r.consumer, r.path, r.tags, r.request_count]),
+    ).toEqual([
+      ["a", "/a", { region: "a" }, 1],
+      ["a", "/b", { region: "a" }, 1],
+      ["b", "/a", { region: "b" }, 1],
+      ["b", "/b", { region: "b" }, 1],
+      [OVERFLOW_BUCKET, OVERFLOW_BUCKET, undefined, 2],
+    ]);
+    expect(requestCounter.cardinalityLimiter.getAndResetOverflowCount()).toBe(
+      2,
+    );
+  });
+});
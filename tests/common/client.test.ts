@@ -1,8 +1,35 @@
 import nock from "nock";
-import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { gunzipSync } from "node:zlib";
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
 
-import { ApitallyClient } from "../../src/common/client.js";
-import { APITALLY_HUB_BASE_URL, CLIENT_ID, ENV } from "../utils.js";
+import { ApitallyClient, flush } from "../../src/common/client.js";
+import type { SyncPayload, TransportContext } from "../../src/common/types.js";
+import {
+  APITALLY_HUB_BASE_URL,
+  CLIENT_ID,
+  createMockTransport,
+  ENV,
+} from "../utils.js";
+
+// Keeps payloads persisted by the sync data store out of the real temp dir
+vi.mock("node:os", async (importOriginal) => {
+  const os = await importOriginal<typeof import("node:os")>();
+  const { mkdtempSync } = await import("node:fs");
+  const { join } = await import("node:path");
+  const tempDir = mkdtempSync(join(os.tmpdir(), "apitally-test-"));
+  return { ...os, tmpdir: () => tempDir };
+});
 
 describe("Client", () => {
   beforeAll(() => {
@@ -27,6 +54,100 @@ describe("Client", () => {
     expect(client.isEnabled()).toBe(false);
   });
 
+  it("Pseudonymization secret validation error on instantiation", () => {
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      pseudonymizeConsumers: { secret: "" },
+    });
+    expect(client.isEnabled()).toBe(false);
+  });
+
+  it("Client ID from environment variable", () => {
+    vi.stubEnv("APITALLY_CLIENT_ID", CLIENT_ID);
+    try {
+      const client = new ApitallyClient({ env: ENV });
+      expect(client.isEnabled()).toBe(true);
+      expect(client["clientId"]).toBe(CLIENT_ID);
+    } finally {
+      vi.unstubAllEnvs();
+    }
+  });
+
+  it("Client ID from config file", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "apitally-config-"));
+    writeFileSync(
+      join(dir, "apitally.config.json"),
+      JSON.stringify({
+        clientId: CLIENT_ID,
+        requestLogging: { enabled: "true", logRequestBody: true },
+      }),
+    );
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    try {
+      const client = new ApitallyClient({
+        env: ENV,
+        requestLogging: { logRequestBody: false },
+      });
+      await client["initPromise"];
+      expect(client.isEnabled()).toBe(true);
+      expect(client["clientId"]).toBe(CLIENT_ID);
+      expect(client.requestLogger.enabled).toBe(true);
+      expect(client.requestLogger.config.logRequestBody).toBe(false);
+    } finally {
+      vi.mocked(process.cwd).mockRestore();
+    }
+  });
+
+  it("Request logged before config file is loaded", async () => {
+    const dir = mkdtempSync(join(tmpdir(), "apitally-config-"));
+    writeFileSync(
+      join(dir, "apitally.config.json"),
+      JSON.stringify({
+        clientId: CLIENT_ID,
+        requestLogging: { enabled: true, logQueryParams: false },
+      }),
+    );
+    vi.spyOn(process, "cwd").mockReturnValue(dir);
+    try {
+      const client = new ApitallyClient({ env: ENV });
+      client.requestLogger.logRequest(
+        {
+          timestamp: Date.now() / 1000,
+          method: "GET",
+          path: "/items",
+          url: "http://localhost:3000/items?token=secret",
+          headers: [],
+        },
+        { statusCode: 200, responseTime: 0.1, headers: [] },
+      );
+      await client["initPromise"];
+      expect(client.requestLogger.enabled).toBe(true);
+
+      await client.requestLogger.writeToFile();
+      await client.requestLogger.rotateFile();
+      const file = client.requestLogger.getFile();
+      const lines = gunzipSync(await file!.getContent())
+        .toString()
+        .trimEnd()
+        .split("\n");
+      expect(lines).toHaveLength(1);
+      expect(JSON.parse(lines[0]).request.url).toBe(
+        "http://localhost:3000/items",
+      );
+      file!.delete();
+      await client.requestLogger.close();
+    } finally {
+      vi.mocked(process.cwd).mockRestore();
+    }
+  });
+
+  it("Missing client ID", async () => {
+    const client = new ApitallyClient({ env: ENV });
+    await client["initPromise"];
+    expect(client.isEnabled()).toBe(false);
+  });
+
   it("Singleton instantiation", () => {
     expect(() => ApitallyClient.getInstance()).toThrow("not initialized");
     expect(() => {
@@ -35,6 +156,21 @@ describe("Client", () => {
     }).toThrow("already initialized");
   });
 
+  it("Multiple named clients", () => {
+    const client1 = new ApitallyClient({ clientId: CLIENT_ID, env: ENV });
+    const client2 = new ApitallyClient({
+      name: "other",
+      clientId: CLIENT_ID,
+      env: "other",
+    });
+    expect(ApitallyClient.getInstance()).toBe(client1);
+    expect(ApitallyClient.getInstance("other")).toBe(client2);
+    expect(ApitallyClient.getInstances()).toHaveLength(2);
+    expect(() => {
+      new ApitallyClient({ name: "other", clientId: CLIENT_ID, env: ENV });
+    }).toThrow("already initialized");
+  });
+
   it("Stop sync if client ID is invalid", async () => {
     nock.cleanAll();
     nock(APITALLY_HUB_BASE_URL)
@@ -53,7 +189,373 @@ describe("Client", () => {
     expect(client["syncIntervalId"]).toBeUndefined();
   });
 
+  it("Custom transport", async () => {
+    const transport = createMockTransport();
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+    });
+    await client["initPromise"];
+    expect(transport.init).toHaveBeenCalledOnce();
+    expect(transport.init.mock.calls[0][0]).toMatchObject({
+      clientId: CLIENT_ID,
+      env: ENV,
+    });
+
+    client.setStartupData({ paths: [], versions: {}, client: "js:test" });
+    await (client as any).sync();
+    expect(transport.sendStartupData).toHaveBeenCalledOnce();
+    expect(transport.sendSyncData).toHaveBeenCalledOnce();
+    expect(transport.sendSyncData.mock.calls[0][0]).toMatchObject({
+      requests: [],
+      server_errors: [],
+    });
+    expect(transport.sendLogData).not.toHaveBeenCalled();
+  });
+
+  it("Retry sync data if transport fails", async () => {
+    const transport = createMockTransport();
+    transport.sendSyncData.mockRejectedValue(new Error("test"));
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+    });
+    await (client as any).sync();
+    expect(transport.sendSyncData).toHaveBeenCalledOnce();
+    expect(client["syncDataQueue"].length).toBe(1);
+
+    transport.sendSyncData.mockImplementation(async () => {});
+    await (client as any).sync();
+    expect(transport.sendSyncData).toHaveBeenCalledTimes(3);
+    expect(client["syncDataQueue"].length).toBe(0);
+  });
+
+  it("Custom metrics", async () => {
+    const transport = createMockTransport();
+    transport.sendSyncData.mockRejectedValue(new Error("test"));
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+    });
+
+    client.metrics.increment("orders.created", 1, { plan: "pro" });
+    await (client as any).sync();
+    expect(transport.sendSyncData.mock.lastCall![0].metrics).toEqual([
+      {
+        name: "orders.created",
+        type: "counter",
+        tags: { plan: "pro" },
+        count: 1,
+        sum: 1,
+      },
+    ]);
+
+    // Metrics are retried with the rest of the sync payload
+    transport.sendSyncData.mockImplementation(async () => {});
+    await (client as any).sync();
+    expect(transport.sendSyncData.mock.calls[1][0].metrics).toHaveLength(1);
+    expect(transport.sendSyncData.mock.calls[2][0].metrics).toBeUndefined();
+  });
+
+  it("Cardinality overflows", async () => {
+    const transport = createMockTransport();
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+      cardinalityLimits: { maxPaths: 1 },
+    });
+
+    for (let i = 0; i < 3; i++) {
+      client.outboundRequestCounter.mergeOutboundRequests([
+        {
+          consumer: null,
+          method: "GET",
+          path: `/items/${i}`,
+          target_method: "GET",
+          target_host: "example.com",
+          status_code: 200,
+          request_count: 1,
+          response_times: {},
+        },
+      ]);
+    }
+    await (client as any).sync();
+    expect(
+      transport.sendSyncData.mock.lastCall![0].cardinality_overflows,
+    ).toEqual({
+      requests: 0,
+      validation_errors: 0,
+      server_errors: 0,
+      metrics: 0,
+      outbound_requests: 2,
+    });
+
+    await (client as any).sync();
+    expect(
+      transport.sendSyncData.mock.lastCall![0].cardinality_overflows,
+    ).toBeUndefined();
+  });
+
+  it("Client status", async () => {
+    const transport = createMockTransport();
+    transport.sendSyncData.mockRejectedValue(new Error("test"));
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+    });
+    expect(client.getStatus()).toMatchObject({
+      enabled: true,
+      invalidClientId: false,
+      lastSyncTime: null,
+      lastError: null,
+      pendingLogFiles: 0,
+      droppedLogItems: 0,
+      loggingSuspendedUntil: null,
+    });
+
+    await (client as any).sync();
+    let status = client.getStatus();
+    expect(status.lastSyncTime).toBeNull();
+    expect(status.lastError?.message).toBe("test");
+    expect(status.syncQueueSize).toBe(1);
+
+    transport.sendSyncData.mockImplementation(async () => {});
+    await (client as any).sync();
+    status = client.getStatus();
+    expect(status.lastSyncTime).toBeGreaterThan(0);
+    expect(status.syncQueueSize).toBe(0);
+  });
+
+  it("Client status with invalid client ID", async () => {
+    nock.cleanAll();
+    nock(APITALLY_HUB_BASE_URL)
+      .persist()
+      .post(/\/(startup|sync)$/)
+      .reply(404, `Client ID '${CLIENT_ID}' not found`);
+
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+    });
+    vi.spyOn(client.logger, "error").mockImplementation(() => {});
+    await (client as any).sync();
+
+    expect(client.getStatus()).toMatchObject({
+      enabled: false,
+      invalidClientId: true,
+    });
+  });
+
+  it("Client status with rejected sync data", async () => {
+    const transport = createMockTransport();
+    transport.sendSyncData.mockResolvedValue("rejected");
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+    });
+    const onSyncSuccess = vi.fn();
+    const onSyncRejected = vi.fn();
+    client.on("syncSuccess", onSyncSuccess);
+    client.on("syncRejected", onSyncRejected);
+
+    await (client as any).sync();
+    const status = client.getStatus();
+    expect(status.lastSyncTime).toBeNull();
+    expect(status.lastError?.message).toContain("rejected");
+    expect(status.syncQueueSize).toBe(0);
+    expect(onSyncSuccess).not.toHaveBeenCalled();
+    expect(onSyncRejected).toHaveBeenCalledOnce();
+  });
+
+  it("Resend startup data after it was rejected", async () => {
+    const transport = createMockTransport();
+    transport.sendStartupData.mockResolvedValueOnce("rejected");
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+    });
+    client.setStartupData({ paths: [], versions: {}, client: "js:test" });
+
+    await (client as any).sync();
+    expect(transport.sendStartupData).toHaveBeenCalledOnce();
+    expect(client["startupDataSent"]).toBe(false);
+    expect(client.getStatus().lastError?.message).toContain("rejected");
+
+    await (client as any).sync();
+    expect(transport.sendStartupData).toHaveBeenCalledTimes(2);
+    expect(client["startupDataSent"]).toBe(true);
+
+    await (client as any).sync();
+    expect(transport.sendStartupData).toHaveBeenCalledTimes(2);
+  });
+
+  it("Lifecycle events", async () => {
+    let context: TransportContext | undefined;
+    const transport = createMockTransport();
+    transport.init.mockImplementation((ctx) => {
+      context = ctx;
+    });
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      requestLogging: { enabled: true },
+      transport,
+    });
+
+    const onBeforeSync = vi.fn((payload: SyncPayload) => {
+      payload.consumers = payload.consumers.filter(
+        (c) => c.identifier !== "internal",
+      );
+    });
+    const onSyncSuccess = vi.fn();
+    const onSyncError = vi.fn();
+    const onLogFileSent = vi.fn();
+    const onLoggingSuspended = vi.fn();
+    const onDisabled = vi.fn();
+    client.on("beforeSync", onBeforeSync);
+    client.on("syncSuccess", onSyncSuccess);
+    client.on("syncError", onSyncError);
+    client.on("logFileSent", onLogFileSent);
+    client.on("loggingSuspended", onLoggingSuspended);
+    client.on("disabled", onDisabled);
+
+    client.consumerRegistry.addOrUpdateConsumer({
+      identifier: "internal",
+      name: "Internal",
+    });
+    client.consumerRegistry.addOrUpdateConsumer({
+      identifier: "external",
+      name: "External",
+    });
+    client.requestLogger.logRequest(
+      {
+        timestamp: Date.now() / 1000,
+        method: "GET",
+        path: "/test",
+        url: "http://localhost/test",
+        headers: [],
+      },
+      { statusCode: 200, responseTime: 0.1, headers: [] },
+    );
+    await client["initPromise"];
+    await client.requestLogger.writeToFile();
+    await (client as any).sync();
+
+    expect(onBeforeSync).toHaveBeenCalledOnce();
+    expect(onSyncSuccess).toHaveBeenCalledOnce();
+    expect(transport.sendSyncData.mock.lastCall![0].consumers).toEqual([
+      { identifier: "external", name: "External" },
+    ]);
+    expect(onLogFileSent).toHaveBeenCalledOnce();
+    expect(onLogFileSent.mock.lastCall![0]).toBe(
+      transport.sendLogData.mock.lastCall![0],
+    );
+
+    const error = new Error("test");
+    transport.sendSyncData.mockRejectedValueOnce(error);
+    await (client as any).sync();
+    expect(onSyncError).toHaveBeenCalledOnce();
+    expect(onSyncError.mock.lastCall![0]).toBe(error);
+
+    context!.suspendLogging(Date.now() + 1000);
+    expect(onLoggingSuspended).toHaveBeenCalledOnce();
+    context!.disable();
+    expect(onDisabled).toHaveBeenCalledOnce();
+    expect(client.isEnabled()).toBe(false);
+  });
+
+  it("Update request logging config at runtime", async () => {
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      requestLogging: { enabled: false },
+    });
+    await client["initPromise"];
+    const onCaptureLogsEnabled = vi.fn();
+    client.whenCaptureLogsEnabled(onCaptureLogsEnabled);
+    expect(client.requestLogger.enabled).toBe(false);
+    expect(client.spanCollector.enabled).toBe(false);
+    expect(onCaptureLogsEnabled).not.toHaveBeenCalled();
+
+    await client.updateRequestLoggingConfig({
+      enabled: true,
+      logRequestBody: true,
+      captureLogs: true,
+      captureTraces: true,
+    });
+    expect(client.requestLogger.enabled).toBe(true);
+    expect(client.requestLogger.config.logRequestBody).toBe(true);
+    expect(client.requestLogger["maintainIntervalId"]).toBeDefined();
+    expect(client.spanCollector.enabled).toBe(true);
+    expect(onCaptureLogsEnabled).toHaveBeenCalledOnce();
+
+    client.requestLogger.logRequest(
+      {
+        timestamp: Date.now() / 1000,
+        method: "GET",
+        path: "/test",
+        url: "http://localhost/test",
+        headers: [],
+      },
+      { statusCode: 200, responseTime: 0.1, headers: [] },
+    );
+
+    await client.updateRequestLoggingConfig({ enabled: false });
+    expect(client.requestLogger.enabled).toBe(false);
+    expect(client.requestLogger["maintainIntervalId"]).toBeUndefined();
+    expect(client.requestLogger.pendingFiles).toBe(1);
+    expect(client.spanCollector.enabled).toBe(false);
+
+    await client.updateRequestLoggingConfig({ enabled: true });
+    expect(onCaptureLogsEnabled).toHaveBeenCalledOnce();
+  });
+
+  it("Serverless mode", async () => {
+    const transport = createMockTransport();
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      requestLogging: { enabled: true },
+      transport,
+      serverless: true,
+    });
+    expect(client.requestLogger["maintainIntervalId"]).toBeUndefined();
+
+    client.setStartupData({ paths: [], versions: {}, client: "js:test" });
+    client.startSync();
+    expect(client["syncIntervalId"]).toBeUndefined();
+    expect(transport.sendSyncData).not.toHaveBeenCalled();
+
+    client.requestLogger.logRequest(
+      {
+        timestamp: Date.now() / 1000,
+        method: "GET",
+        path: "/test",
+        url: "http://localhost/test",
+        headers: [],
+      },
+      { statusCode: 200, responseTime: 0.1, headers: [] },
+    );
+    await flush();
+    expect(transport.sendStartupData).toHaveBeenCalledOnce();
+    expect(transport.sendSyncData).toHaveBeenCalled();
+    expect(transport.sendLogData).toHaveBeenCalledOnce();
+  });
+
   afterEach(async () => {
     await ApitallyClient.shutdown();
   });
+
+  afterAll(async () => {
+    // Log files are deleted in the background when clients shut down
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    rmSync(tmpdir(), { recursive: true, force: true });
+  });
 });
@@ -0,0 +1,276 @@
+import cluster, { type Worker } from "node:cluster";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { ApitallyClient } from "../../src/common/client.js";
+import { ClusterWorkerTransport } from "../../src/common/cluster.js";
+import { listenToClusterWorkers } from "../../src/common/clusterPrimary.js";
+import type { SyncPayload } from "../../src/common/types.js";
+import {
+  CLIENT_ID,
+  createMockTransport,
+  ENV,
+  mockApitallyHub,
+} from "../utils.js";
+
+describe("Cluster", () => {
+  const worker = { id: 1, send: vi.fn() } as unknown as Worker;
+
+  beforeAll(() => {
+    mockApitallyHub();
+  });
+
+  const getSyncPayload = (): SyncPayload => ({
+    timestamp: Date.now() / 1000,
+    instance_uuid: "00000000-0000-0000-0000-000000000000",
+    message_uuid: "00000000-0000-0000-0000-000000000000",
+    requests: [
+      {
+        consumer: "tester",
+        method: "GET",
+        path: "/items",
+        status_code: 200,
+        request_count: 2,
+        request_size_sum: 0,
+        response_size_sum: 200,
+        response_times: { 100: 2 },
+        request_sizes: {},
+        response_sizes: { 0: 2 },
+      },
+    ],
+    validation_errors: [
+      {
+        method: "POST",
+        path: "/items",
+        loc: ["body", "name"],
+        msg: "Field required",
+        type: "missing",
+        error_count: 1,
+      },
+    ],
+    server_errors: [
+      {
+        method: "GET",
+        path: "/items",
+        type: "Error",
+        msg: "test",
+        traceback: "",
+        sentry_event_id: null,
+        error_count: 1,
+      },
+    ],
+    consumers: [{ identifier: "tester", name: "Tester" }],
+    metrics: [
+      {
+        name: "items_created",
+        type: "counter",
+        count: 1,
+        sum: 3,
+      },
+    ],
+    resources: {
+      cpu_percent: 10,
+      memory_rss: 1000,
+      event_loop_delay: { p50: 1, p90: 2, p99: 5, max: 10 },
+    },
+  });
+
+  it("Merge data from workers in primary", () => {
+    const client = new ApitallyClient({ clientId: CLIENT_ID, env: ENV });
+    const startSync = vi.spyOn(client, "startSync");
+    const stopListening = listenToClusterWorkers(client);
+
+    cluster.emit("message", worker, {
+      type: "apitally:cluster",
+      name: client.name,
+      kind: "hello",
+    });
+    expect(worker.send).toHaveBeenCalledWith({
+      type: "apitally:cluster",
+      name: client.name,
+      kind: "ready",
+    });
+
+    const data = { paths: [], versions: {}, client: "js:express" };
+    cluster.emit("message", worker, {
+      type: "apitally:cluster",
+      name: client.name,
+      kind: "startup",
+      data,
+    });
+    cluster.emit("message", worker, {
+      type: "apitally:cluster",
+      name: client.name,
+      kind: "startup",
+      data: { ...data, client: "js:koa" },
+    });
+    expect(client.startupData).toEqual(data);
+    expect(startSync).toHaveBeenCalledOnce();
+
+    for (let i = 0; i < 2; i++) {
+      cluster.emit("message", worker, {
+        type: "apitally:cluster",
+        name: client.name,
+        kind: "sync",
+        payload: getSyncPayload(),
+      });
+    }
+    cluster.emit("message", worker, {
+      type: "apitally:cluster",
+      name: "other",
+      kind: "sync",
+      payload: getSyncPayload(),
+    });
+    stopListening();
+
+    const requests = client.requestCounter.getAndResetRequests();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].request_count).toBe(4);
+    expect(requests[0].response_size_sum).toBe(400);
+    expect(requests[0].response_times).toEqual({ 100: 4 });
+
+    const validationErrors =
+      client.validationErrorCounter.getAndResetValidationErrors();
+    expect(validationErrors).toHaveLength(1);
+    expect(validationErrors[0].loc).toEqual(["body", "name"]);
+    expect(validationErrors[0].error_count).toBe(2);
+
+    const serverErrors = client.serverErrorCounter.getAndResetServerErrors();
+    expect(serverErrors).toHaveLength(1);
+    expect(serverErrors[0].error_count).toBe(2);
+
+    expect(client.consumerRegistry.getAndResetUpdatedConsumers()).toEqual([
+      { identifier: "tester", name: "Tester" },
+    ]);
+
+    const metrics = client.metrics.getAndResetMetrics();
+    expect(metrics).toHaveLength(1);
+    expect(metrics[0].count).toBe(2);
+    expect(metrics[0].sum).toBe(6);
+
+    // Usage of the primary is combined with the latest usage of each worker
+    client.resourceMonitor.getCpuMemoryUsage();
+    client.resourceMonitor.addWorkerUsage(1, getSyncPayload().resources!);
+    client.resourceMonitor.addWorkerUsage(2, getSyncPayload().resources!);
+    const resources = client.resourceMonitor.getCpuMemoryUsage();
+    expect(resources!.cpu_percent).toBeGreaterThanOrEqual(20);
+    expect(resources!.memory_rss).toBeGreaterThan(2000);
+    expect(resources!.event_loop_delay?.max).toBeGreaterThanOrEqual(10);
+  });
+
+  it("Convert histogram bins from workers", () => {
+    const client = new ApitallyClient({ clientId: CLIENT_ID, env: ENV });
+    const stopListening = listenToClusterWorkers(client);
+
+    const payload = getSyncPayload();
+    payload.requests[0].response_times = { 7: 1, 123: 1, 1200: 1 };
+    payload.requests[0].response_sizes = { 2500: 2 };
+    cluster.emit("message", worker, {
+      type: "apitally:cluster",
+      name: client.name,
+      kind: "sync",
+      payload,
+      histogram: { scheme: "log-linear", significantDigits: 2 },
+    });
+    stopListening();
+
+    const requests = client.requestCounter.getAndResetRequests();
+    expect(requests[0].response_times).toEqual({ 0: 1, 120: 1, 1200: 1 });
+    expect(requests[0].response_sizes).toEqual({ 2500: 2 });
+  });
+
+  // Vitest workers use the IPC channel too, so only cluster messages are mocked
+  const originalSend = process.send;
+  const mockProcessSend = ({ primaryListening = true } = {}) => {
+    const on = vi.spyOn(process, "on");
+    const state = { messages: [] as any[], error: null as Error | null };
+    vi.spyOn(process, "connected", "get").mockReturnValue(true);
+    process.send = ((message: any, ...args: any[]) => {
+      if (message?.type !== "apitally:cluster") {
+        return Reflect.apply(originalSend!, process, [message, ...args]);
+      }
+      state.messages.push(message);
+      args[2](state.error);
+      if (message.kind === "hello" && primaryListening) {
+        // Reply to the handshake like a listening primary process would
+        setImmediate(() =>
+          on.mock.calls
+            .filter(([event]) => event === "message")
+            .forEach(([, listener]) =>
+              listener({ ...message, kind: "ready" }, undefined),
+            ),
+        );
+      }
+      return true;
+    }) as typeof process.send;
+    return state;
+  };
+
+  it("Forward data from worker", async () => {
+    const send = mockProcessSend();
+    const fallback = createMockTransport();
+    const transport = new ClusterWorkerTransport("default", {
+      fallback,
+      getHistogram: () => ({ scheme: "linear", significantDigits: 2 }),
+    });
+    await transport.sendSyncData(getSyncPayload());
+    expect(transport.forwardLogLines([Buffer.from('{"uuid":"1"}')])).toBe(true);
+
+    expect(send.messages).toHaveLength(3);
+    expect(send.messages[0]).toEqual({
+      type: "apitally:cluster",
+      name: "default",
+      kind: "hello",
+    });
+    expect(send.messages[1]).toMatchObject({
+      type: "apitally:cluster",
+      name: "default",
+      kind: "sync",
+      histogram: { scheme: "linear", significantDigits: 2 },
+    });
+    expect(send.messages[2]).toEqual({
+      type: "apitally:cluster",
+      name: "default",
+      kind: "logs",
+      lines: ['{"uuid":"1"}'],
+    });
+    expect(fallback.sendSyncData).not.toHaveBeenCalled();
+
+    send.error = new Error("Channel closed");
+    await expect(transport.sendSyncData(getSyncPayload())).rejects.toThrow();
+  });
+
+  it("Fall back to Hub without listening primary", async () => {
+    vi.useFakeTimers();
+    const send = mockProcessSend({ primaryListening: false });
+    const fallback = createMockTransport();
+    const writeLogLines = vi.fn(async () => {});
+    const transport = new ClusterWorkerTransport("default", {
+      fallback,
+      writeLogLines,
+    });
+    const lines = [Buffer.from('{"uuid":"1"}')];
+    expect(transport.forwardLogLines(lines)).toBe(true);
+
+    const payload = getSyncPayload();
+    const syncPromise = transport.sendSyncData(payload);
+    await vi.advanceTimersByTimeAsync(2000);
+    await expect(syncPromise).resolves.toBe("delivered");
+    expect(fallback.sendSyncData).toHaveBeenCalledWith(payload);
+
+    // Request logs are written locally and sent by the worker itself
+    expect(writeLogLines).toHaveBeenCalledWith(lines);
+    expect(transport.forwardLogLines(lines)).toBe(false);
+    await transport.sendLogData("uuid", Buffer.from("data"));
+    expect(fallback.sendLogData).toHaveBeenCalledOnce();
+
+    // Only the initial handshake was sent to the primary
+    expect(send.messages).toHaveLength(1);
+  });
+
+  afterEach(async () => {
+    process.send = originalSend;
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+    await ApitallyClient.shutdown();
+  });
+});
@@ -0,0 +1,205 @@
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import {
+  applyFileConfig,
+  loadConfigFile,
+  parsePattern,
+  resolveConfig,
+} from "../../src/common/config.js";
+import { Logger } from "../../src/common/logging.js";
+import type { ApitallyConfig } from "../../src/common/types.js";
+import { CLIENT_ID, ENV } from "../utils.js";
+
+describe("Config", () => {
+  let dir: string;
+  let logger: Logger;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "apitally-config-"));
+    logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+  });
+
+  const resolveConfigWithFile = async (config: ApitallyConfig) =>
+    applyFileConfig(
+      resolveConfig(config, logger),
+      await loadConfigFile(logger, dir),
+    );
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("Environment variables", async () => {
+    vi.stubEnv("APITALLY_CLIENT_ID", CLIENT_ID);
+    vi.stubEnv("APITALLY_ENV", "prod");
+    vi.stubEnv("APITALLY_REQUEST_LOGGING_ENABLED", "true");
+    vi.stubEnv("APITALLY_REQUEST_LOGGING_LOG_REQUEST_BODY", "1");
+    vi.stubEnv("APITALLY_REQUEST_LOGGING_LOG_RESPONSE_BODY", "maybe");
+    vi.stubEnv(
+      "APITALLY_REQUEST_LOGGING_MASK_HEADERS",
+      "x-internal, /^X-Secret$/",
+    );
+
+    const config = await resolveConfigWithFile({});
+    expect(config.clientId).toBe(CLIENT_ID);
+    expect(config.env).toBe("prod");
+    expect(config.requestLogging).toEqual({
+      enabled: true,
+      logRequestBody: true,
+      maskHeaders: [/x-internal/i, /^X-Secret$/],
+    });
+    expect(logger.warn).toHaveBeenCalledOnce();
+  });
+
+  it("Config file", async () => {
+    writeFileSync(
+      join(dir, "apitally.config.json"),
+      JSON.stringify({
+        clientId: CLIENT_ID,
+        env: ENV,
+        requestLogging: {
+          enabled: true,
+          logQueryParams: false,
+          excludePaths: ["^/admin"],
+        },
+      }),
+    );
+
+    const config = await resolveConfigWithFile({});
+    expect(config.clientId).toBe(CLIENT_ID);
+    expect(config.env).toBe(ENV);
+    expect(config.requestLogging).toEqual({
+      enabled: true,
+      logQueryParams: false,
+      excludePaths: [/^\/admin/i],
+    });
+  });
+
+  it("JavaScript config file", async () => {
+    writeFileSync(
+      join(dir, "apitally.config.js"),
+      `module.exports = { clientId: "${CLIENT_ID}", requestLogging: { maskBodyFields: [/^pin$/] } };`,
+    );
+
+    const config = await resolveConfigWithFile({});
+    expect(config.clientId).toBe(CLIENT_ID);
+    expect(config.requestLogging).toEqual({ maskBodyFields: [/^pin$/] });
+  });
+
+  it("ES module config file", async () => {
+    writeFileSync(
+      join(dir, "package.json"),
+      JSON.stringify({ type: "module" }),
+    );
+    writeFileSync(
+      join(dir, "apitally.config.js"),
+      `const env = await Promise.resolve("${ENV}");
+      export default { clientId: "${CLIENT_ID}", env };`,
+    );
+
+    const config = await resolveConfigWithFile({});
+    expect(config.clientId).toBe(CLIENT_ID);
+    expect(config.env).toBe(ENV);
+  });
+
+  it("Coerce config file values", async () => {
+    writeFileSync(
+      join(dir, "apitally.config.json"),
+      JSON.stringify({
+        clientId: 1,
+        env: ENV,
+        requestLogging: {
+          enabled: "false",
+          logRequestBody: "maybe",
+          sampleRate: "0.5",
+          maskHeaders: "x-internal, /^X-Secret$/",
+          pathSampleRates: [{ path: "^/health", sampleRate: "0" }],
+        },
+      }),
+    );
+
+    const config = await resolveConfigWithFile({});
+    expect(config.clientId).toBeUndefined();
+    expect(config.env).toBe(ENV);
+    expect(config.requestLogging).toEqual({
+      enabled: false,
+      sampleRate: 0.5,
+      maskHeaders: [/x-internal/i, /^X-Secret$/],
+      pathSampleRates: [{ path: /^\/health/i, sampleRate: 0 }],
+    });
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+  });
+
+  it("Precedence", async () => {
+    writeFileSync(
+      join(dir, "apitally.config.json"),
+      JSON.stringify({
+        clientId: "file",
+        env: "file",
+        requestLogging: { enabled: true, logRequestHeaders: true },
+      }),
+    );
+    vi.stubEnv("APITALLY_CLIENT_ID", "env");
+    vi.stubEnv("APITALLY_ENV", "env");
+    vi.stubEnv("APITALLY_REQUEST_LOGGING_LOG_REQUEST_HEADERS", "false");
+
+    const config = await resolveConfigWithFile({
+      clientId: CLIENT_ID,
+      requestLogging: { enabled: false },
+    });
+    expect(config.clientId).toBe(CLIENT_ID);
+    expect(config.env).toBe("env");
+    expect(config.requestLogging).toEqual({
+      enabled: false,
+      logRequestHeaders: false,
+    });
+  });
+
+  it("Invalid config file", async () => {
+    writeFileSync(join(dir, "apitally.config.json"), "{");
+
+    const config = await resolveConfigWithFile({ clientId: CLIENT_ID });
+    expect(config.clientId).toBe(CLIENT_ID);
+    expect(logger.error).toHaveBeenCalledOnce();
+  });
+
+  it("Sampling config", async () => {
+    writeFileSync(
+      join(dir, "apitally.config.json"),
+      JSON.stringify({
+        requestLogging: {
+          pathSampleRates: [
+            { path: "^/health", sampleRate: 0 },
+            { path: "^/invalid" },
+          ],
+        },
+      }),
+    );
+    vi.stubEnv("APITALLY_REQUEST_LOGGING_SAMPLE_RATE", "0.1");
+    vi.stubEnv("APITALLY_REQUEST_LOGGING_ALWAYS_LOG_SLOWER_THAN", "500");
+
+    const config = await resolveConfigWithFile({});
+    expect(config.requestLogging).toEqual({
+      sampleRate: 0.1,
+      alwaysLogSlowerThan: 500,
+      pathSampleRates: [{ path: /^\/health/i, sampleRate: 0 }],
+    });
+    expect(logger.warn).toHaveBeenCalledOnce();
+  });
+
+  it("Parse patterns", () => {
+    expect(parsePattern("secret")).toEqual(/secret/i);
+    expect(parsePattern("/^\\/api\\//")).toEqual(/^\/api\//);
+    expect(parsePattern("/token/gi")).toEqual(/token/gi);
+    expect(() => parsePattern("(")).toThrow();
+  });
+});
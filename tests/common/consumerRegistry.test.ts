@@ -63,4 +63,199 @@ describe("Consumer registry", () => {
     data = consumerRegistry.getAndResetUpdatedConsumers();
     expect(data.length).toBe(1);
   });
+
+  it("Consumer metadata", () => {
+    const consumerRegistry = new ConsumerRegistry();
+    consumerRegistry.addOrUpdateConsumer({
+      identifier: "test",
+      metadata: { plan: "pro", seats: 5 },
+    });
+    let data = consumerRegistry.getAndResetUpdatedConsumers();
+    expect(data).toEqual([
+      { identifier: "test", metadata: { plan: "pro", seats: 5 } },
+    ]);
+
+    consumerRegistry.addOrUpdateConsumer({
+      identifier: "test",
+      metadata: { plan: "pro" },
+    });
+    expect(consumerRegistry.getAndResetUpdatedConsumers()).toHaveLength(0);
+
+    consumerRegistry.addOrUpdateConsumer({
+      identifier: "test",
+      metadata: { plan: "enterprise", company: "Acme" },
+    });
+    data = consumerRegistry.getAndResetUpdatedConsumers();
+    expect(data[0].metadata).toEqual({
+      plan: "enterprise",
+      seats: 5,
+      company: "Acme",
+    });
+
+    const consumer = consumerFromStringOrObject({
+      identifier: "test",
+      metadata: Object.fromEntries(
+        Array.from({ length: 20 }, (_, i) => [`key${i}`, "x".repeat(200)]),
+      ),
+    });
+    expect(Object.keys(consumer!.metadata!)).toHaveLength(10);
+    expect(consumer!.metadata!.key0).toHaveLength(128);
+  });
+
+  it("Evict least recently seen consumers", () => {
+    const consumerRegistry = new ConsumerRegistry({ capacity: 2 });
+    consumerRegistry.addOrUpdateConsumer({ identifier: "a", name: "A" });
+    consumerRegistry.addOrUpdateConsumer({ identifier: "b", name: "B" });
+    consumerRegistry.addOrUpdateConsumer({ identifier: "a", name: "A" });
+    consumerRegistry.addOrUpdateConsumer({ identifier: "c", name: "C" });
+    expect(consumerRegistry.getAndResetUpdatedConsumers()).toHaveLength(3);
+    expect(consumerRegistry["consumers"].size).toBe(2);
+
+    // Consumer a was seen more recently than b, so b was evicted
+    consumerRegistry.addOrUpdateConsumer({ identifier: "a", name: "A" });
+    expect(consumerRegistry.getAndResetUpdatedConsumers()).toHaveLength(0);
+    consumerRegistry.addOrUpdateConsumer({ identifier: "b", name: "B" });
+    expect(consumerRegistry.getAndResetUpdatedConsumers()).toEqual([
+      { identifier: "b", name: "B" },
+    ]);
+  });
+
+  it("Identify consumer from request", () => {
+    const getRequest = (headers: Record<string, string>) => () => ({
+      method: "GET",
+      headers,
+    });
+    const jwtPayload = Buffer.from(
+      JSON.stringify({ sub: "user-1", org_id: 42 }),
+    ).toString("base64url");
+    const jwt = `eyJhbGciOiJIUzI1NiJ9.${jwtPayload}.signature`;
+
+    // Consumers set by the app take precedence
+    let consumerRegistry = new ConsumerRegistry({
+      identifyConsumer: { strategy: "basicAuth" },
+    });
+    expect(
+      consumerRegistry.getConsumer("app", getRequest({ authorization: "" })),
+    ).toEqual({ identifier: "app" });
+
+    const basicAuth = `Basic ${Buffer.from("alice:secret").toString("base64")}`;
+    expect(
+      consumerRegistry.getConsumer(
+        undefined,
+        getRequest({ authorization: basicAuth }),
+      ),
+    ).toEqual({ identifier: "alice" });
+    expect(consumerRegistry.getConsumer(undefined, getRequest({}))).toBeNull();
+
+    consumerRegistry = new ConsumerRegistry({
+      identifyConsumer: { strategy: "apiKeyHeader", header: "X-API-Key" },
+    });
+    const consumer = consumerRegistry.getConsumer(
+      undefined,
+      getRequest({ "x-api-key": "key-1" }),
+    );
+    expect(consumer?.identifier).toMatch(/^[0-9a-f]{16}$/);
+    expect(consumer?.identifier).not.toContain("key-1");
+    expect(
+      consumerRegistry.getConsumer(
+        undefined,
+        getRequest({ "x-api-key": "key-1" }),
+      ),
+    ).toEqual(consumer);
+
+    consumerRegistry = new ConsumerRegistry({
+      identifyConsumer: { strategy: "jwtClaim" },
+    });
+    expect(
+      consumerRegistry.getConsumer(
+        undefined,
+        getRequest({ authorization: `Bearer ${jwt}` }),
+      ),
+    ).toEqual({ identifier: "user-1" });
+    expect(
+      consumerRegistry.getConsumer(
+        undefined,
+        getRequest({ authorization: "Bearer invalid" }),
+      ),
+    ).toBeNull();
+
+    consumerRegistry = new ConsumerRegistry({
+      identifyConsumer: {
+        strategy: "jwtClaim",
+        claim: "org_id",
+        header: "x-token",
+      },
+    });
+    expect(
+      consumerRegistry.getConsumer(undefined, getRequest({ "x-token": jwt })),
+    ).toEqual({ identifier: "42" });
+
+    consumerRegistry = new ConsumerRegistry({
+      identifyConsumer: (request) => ({
+        identifier: request.headers.get("x-tenant") ?? "",
+        group: "Tenants",
+      }),
+    });
+    expect(
+      consumerRegistry.getConsumer(undefined, () => ({
+        method: "GET",
+        headers: new Headers({ "x-tenant": "acme" }),
+      })),
+    ).toEqual({ identifier: "acme", group: "Tenants" });
+
+    consumerRegistry = new ConsumerRegistry({
+      identifyConsumer: () => {
+        throw new Error("test");
+      },
+    });
+    expect(consumerRegistry.getConsumer(undefined, getRequest({}))).toBeNull();
+  });
+
+  it("Pseudonymize consumers", () => {
+    const getRequest = () => ({ method: "GET", headers: {} });
+    let consumerRegistry = new ConsumerRegistry({
+      pseudonymization: { secret: "secret" },
+    });
+    const consumer = consumerRegistry.getConsumer(
+      {
+        identifier: "alice@example.com",
+        name: "Alice",
+        group: "Admins",
+        metadata: { email: "alice@example.com" },
+      },
+      getRequest,
+    );
+    expect(consumer).toEqual({
+      identifier: expect.stringMatching(/^[0-9a-f]{32}$/),
+      name: undefined,
+      group: undefined,
+      metadata: undefined,
+    });
+    expect(
+      consumerRegistry.getConsumer("alice@example.com", getRequest)?.identifier,
+    ).toBe(consumer!.identifier);
+
+    // Identifiers differ with a different secret, other fields are opt-in
+    consumerRegistry = new ConsumerRegistry({
+      pseudonymization: {
+        secret: "other",
+        includeName: true,
+        includeGroup: true,
+        includeMetadata: true,
+      },
+    });
+    const otherConsumer = consumerRegistry.getConsumer(
+      {
+        identifier: "alice@example.com",
+        name: "Alice",
+        group: "Admins",
+        metadata: { plan: "pro" },
+      },
+      getRequest,
+    );
+    expect(otherConsumer!.identifier).not.toBe(consumer!.identifier);
+    expect(otherConsumer!.name).toBe("Alice");
+    expect(otherConsumer!.group).toBe("Admins");
+    expect(otherConsumer!.metadata).toEqual({ plan: "pro" });
+  });
 });
@@ -0,0 +1,123 @@
+import { build } from "esbuild";
+import { Miniflare } from "miniflare";
+import { fileURLToPath } from "node:url";
+import { gunzipSync } from "node:zlib";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import type { ClientStatus, SyncPayload } from "../../src/common/types.js";
+import { CLIENT_ID, ENV } from "../utils.js";
+
+const WORKER_SCRIPT = `
+import { ApitallyClient, flush } from "./src/common/client.js";
+
+export default {
+  async fetch() {
+    const client = new ApitallyClient({
+      clientId: "${CLIENT_ID}",
+      env: "${ENV}",
+      requestLogging: { enabled: true },
+      serverless: true,
+    });
+    client.setStartupData({ paths: [], versions: {}, client: "js:test" });
+    client.requestCounter.addRequest({
+      method: "GET",
+      path: "/items",
+      statusCode: 200,
+      responseTime: 100,
+    });
+    client.requestLogger.logRequest(
+      {
+        timestamp: Date.now() / 1000,
+        method: "GET",
+        path: "/items",
+        url: "https://example.com/items",
+        headers: [],
+      },
+      { statusCode: 200, responseTime: 0.1, headers: [] },
+    );
+    await flush();
+    const status = client.getStatus();
+    await client.handleShutdown();
+    return Response.json(status);
+  },
+};
+`;
+
+// Runs the client in workerd, the runtime of Cloudflare Workers, which has no
+// filesystem and only some Node.js modules. The compatibility date predates
+// support for node:os and node:perf_hooks.
+describe("Edge runtime", () => {
+  let mf: Miniflare;
+  const hubRequests: { path: string; body: Buffer }[] = [];
+
+  beforeAll(async () => {
+    const result = await build({
+      stdin: {
+        contents: WORKER_SCRIPT,
+        resolveDir: fileURLToPath(new URL("../..", import.meta.url)),
+        loader: "ts",
+      },
+      bundle: true,
+      write: false,
+      format: "cjs",
+      platform: "node",
+      logLevel: "silent",
+    });
+    mf = new Miniflare({
+      modules: [
+        {
+          type: "ESModule",
+          path: "index.mjs",
+          contents:
+            "import worker from './worker.cjs'; export default worker.default;",
+        },
+        {
+          type: "CommonJS",
+          path: "worker.cjs",
+          contents: result.outputFiles[0].text,
+        },
+      ],
+      compatibilityDate: "2025-09-01",
+      compatibilityFlags: ["nodejs_compat"],
+      outboundService: async (request) => {
+        hubRequests.push({
+          path: new URL(request.url).pathname,
+          body: Buffer.from(await request.arrayBuffer()),
+        });
+        return new Response(null, { status: 202 });
+      },
+    });
+  }, 30000);
+
+  afterAll(async () => {
+    await mf?.dispose();
+  });
+
+  it("Sync with in-memory storage", async () => {
+    const response = await mf.dispatchFetch("http://localhost/");
+    expect(response.status).toBe(200);
+    const status = (await response.json()) as ClientStatus;
+    expect(status.enabled).toBe(true);
+    expect(status.lastError).toBeNull();
+    expect(status.lastSyncTime).toBeGreaterThan(0);
+
+    const prefix = `/v2/${CLIENT_ID}/${ENV}/`;
+    const startupRequest = hubRequests.find(
+      (r) => r.path === `${prefix}startup`,
+    );
+    expect(startupRequest).toBeDefined();
+
+    const syncRequest = hubRequests.find((r) => r.path === `${prefix}sync`);
+    const syncPayload: SyncPayload = JSON.parse(syncRequest!.body.toString());
+    expect(syncPayload.requests).toHaveLength(1);
+    expect(syncPayload.requests[0].path).toBe("/items");
+    expect(syncPayload.resources).toBeNull();
+
+    const logRequest = hubRequests.find((r) =>
+      r.path.startsWith(`${prefix}log`),
+    );
+    const logLines = gunzipSync(logRequest!.body).toString().trim().split("\n");
+    expect(logLines).toHaveLength(1);
+    expect(JSON.parse(logLines[0]).request.path).toBe("/items");
+  }, 30000);
+});
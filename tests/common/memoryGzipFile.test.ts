@@ -0,0 +1,22 @@
+import { gunzipSync } from "node:zlib";
+import { describe, expect, it } from "vitest";
+
+import MemoryGzipFile from "../../src/common/memoryGzipFile.js";
+
+describe("In-memory gzip file", () => {
+  it("End to end", async () => {
+    const file = new MemoryGzipFile();
+    expect(file.size).toBe(0);
+
+    await file.writeLines([Buffer.from("test1"), Buffer.from("test2")]);
+    await file.close();
+    expect(file.size).toBeGreaterThan(0);
+
+    const compressedData = await file.getContent();
+    const content = gunzipSync(compressedData).toString();
+    expect(content).toBe("test1\ntest2\n");
+
+    await file.delete();
+    expect(file.size).toBe(0);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, expect, it, vi } from "vitest";
+
+import MetricsCounter from "../../src/common/metricsCounter.js";
+
+describe("Metrics counter", () => {
+  it("Counters and distributions", () => {
+    const metrics = new MetricsCounter();
+    metrics.increment("orders.created");
+    metrics.increment("orders.created", 2);
+    metrics.increment("orders.created", 1, { region: "eu" });
+    metrics.observe("emails.queued", 5);
+    metrics.observe("emails.queued", 120);
+    metrics.observe("emails.queued", 1234);
+    metrics.increment("invalid name");
+    metrics.observe("emails.queued", NaN);
+
+    const items = metrics.getAndResetMetrics();
+    expect(items).toEqual([
+      { name: "orders.created", type: "counter", count: 2, sum: 3 },
+      {
+        name: "orders.created",
+        type: "counter",
+        tags: { region: "eu" },
+        count: 1,
+        sum: 1,
+      },
+      {
+        name: "emails.queued",
+        type: "distribution",
+        count: 3,
+        sum: 1359,
+        min: 5,
+        max: 1234,
+        values: { 5: 1, 120: 1, 1200: 1 },
+      },
+    ]);
+    expect(metrics.getAndResetMetrics()).toEqual([]);
+  });
+
+  it("Cardinality limits", () => {
+    const metrics = new MetricsCounter({ maxMetrics: 1, maxTagSets: 1 });
+    metrics.increment("a", 1, { tenant: "1" });
+    metrics.increment("a", 1, { tenant: "2" });
+    metrics.increment("b");
+
+    const items = metrics.getAndResetMetrics();
+    expect(items.map((item) => [item.name, item.tags])).toEqual([
+      ["a", { tenant: "1" }],
+      ["a", { tenant: "__other__" }],
+      ["__other__", undefined],
+    ]);
+    expect(metrics.cardinalityLimiter.getAndResetOverflowCount()).toBe(2);
+  });
+
+  it("Warnings for dropped metrics", () => {
+    const logger = {
+      debug: vi.fn(),
+      info: vi.fn(),
+      warn: vi.fn(),
+      error: vi.fn(),
+    };
+    const metrics = new MetricsCounter(undefined, logger);
+    metrics.increment("invalid name");
+    metrics.increment("invalid name");
+    metrics.observe("latency", Infinity);
+    expect(logger.warn).toHaveBeenCalledTimes(2);
+    expect(logger.warn.mock.calls[0][0]).toContain("'invalid name'");
+    expect(logger.warn.mock.calls[1][0]).toContain("'latency'");
+
+    // Warnings are rate-limited per sync window
+    for (let i = 0; i < 20; i++) {
+      metrics.increment(`invalid name ${i}`);
+    }
+    expect(logger.warn).toHaveBeenCalledTimes(10);
+    metrics.getAndResetMetrics();
+    metrics.increment("invalid name");
+    expect(logger.warn).toHaveBeenCalledTimes(11);
+  });
+});
@@ -0,0 +1,111 @@
+import { metrics, type MeterProvider } from "@opentelemetry/api";
+import { afterEach, beforeAll, describe, expect, it, vi } from "vitest";
+
+import { ApitallyClient } from "../../src/common/client.js";
+import { CLIENT_ID, ENV, mockApitallyHub } from "../utils.js";
+
+describe("OpenTelemetry metrics", () => {
+  beforeAll(() => {
+    mockApitallyHub();
+  });
+
+  const setupMeterProvider = () => {
+    const records = new Map<string, Array<[number, unknown]>>();
+    const createInstrument = (name: string) => {
+      const record = vi.fn((value: number, attributes?: unknown) => {
+        records.set(name, [...(records.get(name) ?? []), [value, attributes]]);
+      });
+      return { record, add: record };
+    };
+    const meterProvider = {
+      getMeter: () => ({
+        createHistogram: createInstrument,
+        createCounter: createInstrument,
+      }),
+    } as unknown as MeterProvider;
+    metrics.setGlobalMeterProvider(meterProvider);
+    return records;
+  };
+
+  it("Record request metrics", () => {
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      otelMetrics: true,
+    });
+    const records = setupMeterProvider();
+
+    client.requestCounter.addRequest({
+      consumer: "tester",
+      method: "post",
+      path: "/items",
+      statusCode: 201,
+      responseTime: 250,
+      requestSize: "100",
+      responseSize: 50,
+    });
+    client.validationErrorCounter.addValidationError({
+      method: "POST",
+      path: "/items",
+      loc: "body.name",
+      msg: "Field required",
+      type: "missing",
+    });
+    client.serverErrorCounter.addServerError({
+      method: "GET",
+      path: "/items",
+      type: "TypeError",
+      msg: "test",
+      traceback: "",
+    });
+
+    const attributes = {
+      "http.request.method": "POST",
+      "http.route": "/items",
+      "http.response.status_code": 201,
+    };
+    expect(records.get("http.server.request.duration")).toEqual([
+      [0.25, attributes],
+    ]);
+    expect(records.get("http.server.request.body.size")).toEqual([
+      [100, attributes],
+    ]);
+    expect(records.get("http.server.response.body.size")).toEqual([
+      [50, attributes],
+    ]);
+    expect(records.get("apitally.validation_errors")).toEqual([
+      [1, { "http.request.method": "POST", "http.route": "/items" }],
+    ]);
+    expect(records.get("apitally.server_errors")).toEqual([
+      [
+        1,
+        {
+          "http.request.method": "GET",
+          "http.route": "/items",
+          "error.type": "TypeError",
+        },
+      ],
+    ]);
+
+    // The request counter used for the Hub is unaffected
+    expect(client.requestCounter.getRequests()).toHaveLength(1);
+  });
+
+  it("Disabled by default", () => {
+    const client = new ApitallyClient({ clientId: CLIENT_ID, env: ENV });
+    const records = setupMeterProvider();
+
+    client.requestCounter.addRequest({
+      method: "GET",
+      path: "/items",
+      statusCode: 200,
+      responseTime: 10,
+    });
+    expect(records.size).toBe(0);
+  });
+
+  afterEach(async () => {
+    metrics.disable();
+    await ApitallyClient.shutdown();
+  });
+});
@@ -0,0 +1,145 @@
+import http from "node:http";
+import type { AddressInfo } from "node:net";
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+
+import OutboundRequestCounter from "../../src/common/outboundRequestCounter.js";
+import OutboundRequestCollector from "../../src/common/outboundRequests.js";
+
+describe("Outbound requests", () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    server = http.createServer((req, res) => {
+      res.statusCode = req.url?.startsWith("/missing") ? 404 : 200;
+      if (req.url?.startsWith("/slow")) {
+        setTimeout(() => res.end("ok"), 50);
+      } else {
+        res.end("ok");
+      }
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  const httpGet = (url: string) =>
+    new Promise<void>((resolve, reject) => {
+      http
+        .get(url, (res) => {
+          res.resume();
+          res.once("end", resolve);
+        })
+        .once("error", reject);
+    });
+
+  it("Collect outbound requests", async () => {
+    const collector = new OutboundRequestCollector(true);
+    const handle = collector.start();
+
+    await fetch(`${baseUrl}/outside`);
+    await handle.runInContext(async () => {
+      await (await fetch(`${baseUrl}/items?token=secret`)).text();
+      await httpGet(`${baseUrl}/missing`);
+    });
+    await fetch(`${baseUrl}/outside`);
+
+    const outboundRequests = handle.end();
+    collector.close();
+
+    expect(outboundRequests).toHaveLength(2);
+    expect(outboundRequests![0]).toMatchObject({
+      method: "GET",
+      url: `${baseUrl}/items`,
+      host: new URL(baseUrl).host,
+      statusCode: 200,
+    });
+    expect(outboundRequests![0].responseTime).toBeGreaterThan(0);
+    expect(outboundRequests![1]).toMatchObject({
+      method: "GET",
+      url: `${baseUrl}/missing`,
+      statusCode: 404,
+    });
+    expect(handle.end()).toBeUndefined();
+  });
+
+  it("Collector disabled", async () => {
+    const collector = new OutboundRequestCollector(false);
+    const handle = collector.start();
+    await handle.runInContext(() => fetch(`${baseUrl}/items`));
+    expect(handle.end()).toBeUndefined();
+  });
+
+  it("Count outbound requests completed after the response", async () => {
+    const collector = new OutboundRequestCollector(true);
+    const counter = new OutboundRequestCounter();
+    const handle = collector.start();
+
+    const pendingRequest = handle.runInContext(() => fetch(`${baseUrl}/slow`));
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    const outboundRequests = handle.end();
+    expect(outboundRequests).toHaveLength(1);
+    expect(outboundRequests![0].statusCode).toBeUndefined();
+
+    counter.addOutboundRequests(
+      { consumer: "tester", method: "get", path: "/items" },
+      outboundRequests,
+    );
+    expect(counter.getAndResetOutboundRequests()).toHaveLength(0);
+
+    await (await pendingRequest).text();
+    collector.close();
+
+    const data = counter.getAndResetOutboundRequests();
+    expect(data).toHaveLength(1);
+    expect(data[0]).toMatchObject({
+      consumer: "tester",
+      method: "GET",
+      path: "/items",
+      target_method: "GET",
+      status_code: 200,
+      request_count: 1,
+    });
+  });
+
+  it("Count outbound requests", () => {
+    const counter = new OutboundRequestCounter();
+    const requestInfo = { consumer: "tester", method: "get", path: "/items" };
+    const outboundRequest = {
+      timestamp: Date.now() / 1000,
+      method: "POST",
+      url: "https://api.example.com/v1/charges",
+      host: "api.example.com",
+    };
+    counter.addOutboundRequests(requestInfo, [
+      { ...outboundRequest, statusCode: 201, responseTime: 0.123 },
+      { ...outboundRequest, statusCode: 201, responseTime: 0.128 },
+      { ...outboundRequest, error: "fetch failed", responseTime: 0.5 },
+    ]);
+
+    const data = counter.getAndResetOutboundRequests();
+    expect(data).toHaveLength(2);
+    expect(data[0]).toEqual({
+      consumer: "tester",
+      method: "GET",
+      path: "/items",
+      target_method: "POST",
+      target_host: "api.example.com",
+      status_code: 201,
+      request_count: 2,
+      response_times: { 120: 2 },
+    });
+    expect(data[1].status_code).toBeNull();
+    expect(data[1].response_times).toEqual({ 500: 1 });
+
+    counter.mergeOutboundRequests(data);
+    counter.mergeOutboundRequests(data);
+    const merged = counter.getAndResetOutboundRequests();
+    expect(merged[0].request_count).toBe(4);
+    expect(merged[0].response_times).toEqual({ 120: 4 });
+    expect(counter.getAndResetOutboundRequests()).toHaveLength(0);
+  });
+});
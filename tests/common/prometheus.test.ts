@@ -0,0 +1,131 @@
+import { afterEach, describe, expect, it } from "vitest";
+
+import { ApitallyClient } from "../../src/common/client.js";
+import { escapeLabelValue } from "../../src/common/prometheus.js";
+import type { ApitallyConfig } from "../../src/common/types.js";
+import { CLIENT_ID, createMockTransport, ENV } from "../utils.js";
+
+describe("Prometheus exporter", () => {
+  const getClient = (config?: Partial<ApitallyConfig>) => {
+    const transport = createMockTransport();
+    const client = new ApitallyClient({
+      clientId: CLIENT_ID,
+      env: ENV,
+      transport,
+      ...config,
+    });
+    client["syncDataQueue"] = [];
+    return { client, transport };
+  };
+
+  it("Cumulative values", async () => {
+    const { client, transport } = getClient();
+    const exporter = client.prometheusExporter;
+
+    const requestInfo = {
+      consumer: "tester",
+      method: "GET",
+      path: "/items",
+      statusCode: 200,
+      responseTime: 120,
+      responseSize: 100,
+    };
+    client.requestCounter.addRequest(requestInfo);
+    client.serverErrorCounter.addServerError({
+      method: "GET",
+      path: "/items",
+      type: "Error",
+      msg: "test",
+      traceback: "",
+    });
+
+    // Rendering must not reset the window that is synced to the Hub
+    let output = exporter.render();
+    expect(output).toContain(
+      'apitally_requests_total{consumer="tester",method="GET",path="/items",status_code="200"} 1',
+    );
+    await (client as any).sync();
+    expect(transport.sendSyncData.mock.lastCall![0].requests).toHaveLength(1);
+    expect(transport.sendSyncData.mock.lastCall![0].server_errors).toHaveLength(
+      1,
+    );
+
+    client.requestCounter.addRequest({ ...requestInfo, responseTime: 3000 });
+    output = exporter.render();
+    const labels =
+      'consumer="tester",method="GET",path="/items",status_code="200"';
+    expect(output).toContain(`apitally_requests_total{${labels}} 2`);
+    expect(output).toContain(
+      `apitally_response_size_bytes_total{${labels}} 200`,
+    );
+    expect(output).toContain(
+      `apitally_request_duration_seconds_bucket{${labels},le="0.25"} 1`,
+    );
+    expect(output).toContain(
+      `apitally_request_duration_seconds_bucket{${labels},le="5"} 2`,
+    );
+    expect(output).toContain(
+      `apitally_request_duration_seconds_bucket{${labels},le="+Inf"} 2`,
+    );
+    expect(output).toContain(
+      `apitally_request_duration_seconds_sum{${labels}} 3.13`,
+    );
+    expect(output).toContain(
+      'apitally_server_errors_total{consumer="",method="GET",path="/items",type="Error"} 1',
+    );
+    expect(output).toContain("# TYPE process_cpu_seconds_total counter");
+    expect(output).toContain("# TYPE process_resident_memory_bytes gauge");
+    expect(client.requestCounter.getRequests()).toHaveLength(1);
+  });
+
+  it("Include windows synced before the first scrape", async () => {
+    const { client } = getClient();
+    client.requestCounter.addRequest({
+      method: "GET",
+      path: "/items",
+      statusCode: 200,
+      responseTime: 100,
+    });
+    await (client as any).sync();
+
+    // Bins are attributed to buckets by their upper bound (100-110 ms)
+    const output = client.prometheusExporter.render();
+    const labels = 'consumer="",method="GET",path="/items",status_code="200"';
+    expect(output).toContain(`apitally_requests_total{${labels}} 1`);
+    expect(output).toContain(
+      `apitally_request_duration_seconds_bucket{${labels},le="0.1"} 0`,
+    );
+    expect(output).toContain(
+      `apitally_request_duration_seconds_bucket{${labels},le="0.25"} 1`,
+    );
+  });
+
+  it("Limit number of series", async () => {
+    const { client } = getClient({
+      cardinalityLimits: { maxPaths: 20000, maxKeys: 20000 },
+    });
+    for (let i = 0; i < 10001; i++) {
+      client.requestCounter.addRequest({
+        method: "GET",
+        path: `/items/${i}`,
+        statusCode: 200,
+        responseTime: 10,
+      });
+    }
+    await (client as any).sync();
+
+    const output = client.prometheusExporter.render();
+    expect(output).toContain(
+      'apitally_requests_total{consumer="__other__",method="GET",path="__other__",status_code="200"} 1',
+    );
+    expect(output).not.toContain('path="/items/10000"');
+  });
+
+  it("Escape label values", () => {
+    expect(escapeLabelValue('a\\b"c\nd')).toBe('a\\\\b\\"c\\nd');
+  });
+
+  afterEach(async () => {
+    await ApitallyClient.shutdown();
+  });
+});
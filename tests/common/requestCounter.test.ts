@@ -0,0 +1,112 @@
+import { describe, expect, it } from "vitest";
+
+import RequestCounter from "../../src/common/requestCounter.js";
+
+describe("Request counter", () => {
+  const addRequests = (
+    requestCounter: RequestCounter,
+    responseTimes: number[],
+    path = "/test",
+  ) => {
+    for (const responseTime of responseTimes) {
+      requestCounter.addRequest({
+        method: "GET",
+        path,
+        statusCode: 200,
+        responseTime,
+        responseSize: responseTime * 100,
+      });
+    }
+  };
+
+  it("Linear histogram buckets", () => {
+    const requestCounter = new RequestCounter();
+    addRequests(requestCounter, [3, 7, 1234]);
+
+    const [request] = requestCounter.getAndResetRequests();
+    expect(request.response_times).toEqual({ 0: 2, 1230: 1 });
+    expect(request.response_sizes).toEqual({ 0: 2, 123: 1 });
+  });
+
+  it("Log-linear histogram buckets", () => {
+    const requestCounter = new RequestCounter(undefined, {
+      scheme: "log-linear",
+    });
+    addRequests(requestCounter, [3.5, 7, 57, 1234, 98765]);
+
+    const [request] = requestCounter.getAndResetRequests();
+    expect(request.response_times).toEqual({
+      3: 1,
+      7: 1,
+      57: 1,
+      1200: 1,
+      98000: 1,
+    });
+    expect(request.response_sizes).toEqual({
+      0: 2,
+      5: 1,
+      120: 1,
+      9800: 1,
+    });
+  });
+
+  it("Response time percentiles", () => {
+    const requestCounter = new RequestCounter(undefined, {
+      scheme: "log-linear",
+    });
+    addRequests(
+      requestCounter,
+      Array.from({ length: 100 }, (_, i) => i + 1),
+    );
+    addRequests(requestCounter, [5], "/other");
+
+    const percentiles = requestCounter.getResponseTimePercentiles();
+    expect(percentiles).toEqual([
+      {
+        method: "GET",
+        path: "/test",
+        request_count: 100,
+        p50: 50,
+        p95: 95,
+        p99: 99,
+      },
+      {
+        method: "GET",
+        path: "/other",
+        request_count: 1,
+        p50: 5,
+        p95: 5,
+        p99: 5,
+      },
+    ]);
+
+    requestCounter.getAndResetRequests();
+    expect(requestCounter.getResponseTimePercentiles()).toEqual([]);
+  });
+
+  it("Request tags", () => {
+    const requestCounter = new RequestCounter({ maxTagSets: 2 });
+    const addRequest = (tags?: Record<string, string | number | null>) => {
+      requestCounter.addRequest({
+        method: "GET",
+        path: "/test",
+        statusCode: 200,
+        responseTime: 10,
+        tags,
+      });
+    };
+    addRequest({ region: "eu", plan: "pro" });
+    addRequest({ plan: "pro", region: " eu ", ignored: null });
+    addRequest({ region: "us", version: 2 });
+    addRequest({ region: "ap" });
+    addRequest();
+
+    const requests = requestCounter.getAndResetRequests();
+    expect(requests.map((r) => [r.tags, r.request_count])).toEqual([
+      [{ plan: "pro", region: "eu" }, 2],
+      [{ region: "us", version: "2" }, 1],
+      [{ region: "__other__" }, 1],
+      [undefined, 1],
+    ]);
+  });
+});
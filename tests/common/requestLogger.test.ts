@@ -80,6 +80,16 @@ describe("Request logger", () => {
         undefined,
         [],
         "0123456789abcdef0123456789abcdef",
+        [
+          {
+            timestamp: Date.now() / 1000,
+            method: "GET",
+            url: "https://api.example.com/items",
+            host: "api.example.com",
+            statusCode: 200,
+            responseTime: 0.05,
+          },
+        ],
       );
     }
 
@@ -95,9 +105,25 @@ describe("Request logger", () => {
       expect(item.exception.type).toBe("Error");
       expect(item.exception.message).toBe("test");
       expect(item.traceId).toBe("0123456789abcdef0123456789abcdef");
+      expect(item.outboundRequests).toEqual([
+        expect.objectContaining({ host: "api.example.com", statusCode: 200 }),
+      ]);
     }
   });
 
+  it("Memory storage", async () => {
+    await requestLogger.close();
+    requestLogger = new RequestLogger({ enabled: true }, { storage: "memory" });
+    expect(requestLogger.enabled).toBe(true);
+    expect(requestLogger.storage).toBe("memory");
+
+    requestLogger.logRequest(createRequest(), createResponse());
+
+    const items = await getLoggedItems(requestLogger);
+    expect(items.length).toBe(1);
+    expect(items[0].request.path).toBe("/test");
+  });
+
   it("Log config", async () => {
     requestLogger.config.logQueryParams = false;
     requestLogger.config.logRequestHeaders = false;
@@ -157,6 +183,44 @@ describe("Request logger", () => {
     expect(items.length).toBe(0);
   });
 
+  it("Sampling", async () => {
+    requestLogger.config.sampleRate = 0;
+    requestLogger.config.pathSampleRates = [{ path: /^\/keep/, sampleRate: 1 }];
+    requestLogger.config.alwaysLogSlowerThan = 1000;
+
+    const slowResponse = { ...createResponse(), responseTime: 1.5 };
+    const serverErrorResponse = { ...createResponse(), statusCode: 500 };
+
+    requestLogger.logRequest(createRequest(), createResponse());
+    requestLogger.logRequest(
+      { ...createRequest(), path: "/keep" },
+      createResponse(),
+    );
+    requestLogger.logRequest(createRequest(), slowResponse);
+    requestLogger.logRequest(createRequest(), serverErrorResponse);
+    requestLogger.logRequest(
+      createRequest(),
+      createResponse(),
+      new Error("test"),
+    );
+
+    let items = await getLoggedItems(requestLogger);
+    expect(items.length).toBe(4);
+    expect(items.every((item) => item.sampleRate === 1)).toBe(true);
+
+    requestLogger.config.sampleRate = 0.5;
+    requestLogger.config.alwaysLogServerErrors = false;
+    const randomSpy = vi.spyOn(Math, "random");
+    randomSpy.mockReturnValueOnce(0.25).mockReturnValueOnce(0.75);
+    requestLogger.logRequest(createRequest(), serverErrorResponse);
+    requestLogger.logRequest(createRequest(), serverErrorResponse);
+    randomSpy.mockRestore();
+
+    items = await getLoggedItems(requestLogger);
+    expect(items.length).toBe(1);
+    expect(items[0].sampleRate).toBe(0.5);
+  });
+
   it("HTTPS detection", async () => {
     const response = createResponse();
 
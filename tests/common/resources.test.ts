@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+
+import ResourceMonitor from "../../src/common/resources.js";
+
+describe("Resources", () => {
+  it("CPU, memory and event loop usage", async () => {
+    const resourceMonitor = new ResourceMonitor();
+    expect(resourceMonitor.getCpuMemoryUsage()).toBeNull();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    const usage = resourceMonitor.getCpuMemoryUsage();
+    expect(usage).not.toBeNull();
+    expect(usage!.cpu_percent).toBeGreaterThanOrEqual(0);
+    expect(usage!.memory_rss).toBeGreaterThan(0);
+    expect(usage!.heap_used).toBeGreaterThan(0);
+    expect(usage!.heap_total).toBeGreaterThanOrEqual(usage!.heap_used!);
+    expect(usage!.external_memory).toBeGreaterThanOrEqual(0);
+    expect(usage!.event_loop_delay).toEqual({
+      p50: expect.any(Number),
+      p90: expect.any(Number),
+      p99: expect.any(Number),
+      max: expect.any(Number),
+    });
+    expect(usage!.event_loop_delay!.p50).toBeGreaterThanOrEqual(0);
+    expect(usage!.event_loop_utilization).toBeGreaterThanOrEqual(0);
+    expect(usage!.event_loop_utilization).toBeLessThanOrEqual(1);
+    expect(usage!.gc_pause_total).toBeGreaterThanOrEqual(0);
+    expect(usage!.gc_count).toBeGreaterThanOrEqual(0);
+    expect(usage!.active_handles).toBeGreaterThanOrEqual(0);
+    resourceMonitor.close();
+  });
+
+  it("Separate intervals per monitor", async () => {
+    const monitor1 = new ResourceMonitor();
+    const monitor2 = new ResourceMonitor();
+    monitor1.getCpuMemoryUsage();
+
+    await new Promise((resolve) => setTimeout(resolve, 100));
+    // The second monitor starts measuring without resetting the first one
+    expect(monitor2.getCpuMemoryUsage()).toBeNull();
+    const usage = monitor1.getCpuMemoryUsage();
+    expect(usage).not.toBeNull();
+    expect(usage!.event_loop_delay).toBeDefined();
+    expect(usage!.event_loop_utilization).toBeDefined();
+
+    monitor1.close();
+    monitor2.close();
+  });
+});
@@ -0,0 +1,163 @@
+import {
+  mkdirSync,
+  mkdtempSync,
+  readdirSync,
+  rmSync,
+  writeFileSync,
+} from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+
+import type SyncDataStoreType from "../../src/common/syncDataStore.js";
+import { CLIENT_ID, ENV } from "../utils.js";
+
+describe("Sync data store", () => {
+  let tempDir: string;
+  let SyncDataStore: typeof SyncDataStoreType;
+
+  const createPayload = (timestamp: number, messageUuid: string) => ({
+    timestamp,
+    instance_uuid: "00000000-0000-4000-8000-000000000000",
+    message_uuid: messageUuid,
+    requests: [],
+    validation_errors: [],
+    server_errors: [],
+    consumers: [],
+    resources: null,
+  });
+
+  beforeAll(() => {
+    tempDir = mkdtempSync(join(tmpdir(), "apitally-test-"));
+    vi.doMock("node:os", () => ({ tmpdir: () => tempDir }));
+  });
+
+  beforeEach(async () => {
+    vi.resetModules();
+    const module = await import("../../src/common/syncDataStore.js");
+    SyncDataStore = module.default;
+    rmSync(join(tempDir, "apitally"), { recursive: true, force: true });
+  });
+
+  afterAll(() => {
+    vi.restoreAllMocks();
+    rmSync(tempDir, { recursive: true, force: true });
+  });
+
+  it("Save and delete payloads", () => {
+    const store = new SyncDataStore(CLIENT_ID, ENV);
+    expect(store.enabled).toBe(true);
+
+    const payload = createPayload(Date.now() / 1000, "a");
+    store.save(payload);
+    expect(
+      readdirSync(join(tempDir, "apitally")).filter((f) =>
+        f.startsWith("sync_"),
+      ),
+    ).toHaveLength(1);
+
+    store.delete(payload);
+    expect(
+      readdirSync(join(tempDir, "apitally")).filter((f) =>
+        f.startsWith("sync_"),
+      ),
+    ).toHaveLength(0);
+  });
+
+  it("Load payloads from dead processes", () => {
+    const store = new SyncDataStore(CLIENT_ID, ENV);
+    const prefix = store["prefix"];
+    const deadPid = 99999999;
+    const apitallyDir = join(tempDir, "apitally");
+
+    const payload1 = createPayload(2, "00000000-0000-4000-8000-000000000001");
+    const payload2 = createPayload(1, "00000000-0000-4000-8000-000000000002");
+    const payload3 = createPayload(3, "00000000-0000-4000-8000-000000000003");
+    writeFileSync(
+      join(apitallyDir, `${prefix}${deadPid}_${payload1.message_uuid}.json`),
+      JSON.stringify(payload1),
+    );
+    writeFileSync(
+      join(apitallyDir, `${prefix}${deadPid}_${payload2.message_uuid}.json`),
+      JSON.stringify(payload2),
+    );
+    writeFileSync(
+      join(apitallyDir, `${prefix}${deadPid}_invalid.json`),
+      "invalid",
+    );
+
+    // Payloads from live processes should not be claimed
+    writeFileSync(
+      join(
+        apitallyDir,
+        `${prefix}${process.ppid}_${payload3.message_uuid}.json`,
+      ),
+      JSON.stringify(payload3),
+    );
+
+    // Neither should pending payloads of another client in this process
+    const otherStore = new SyncDataStore(CLIENT_ID, ENV);
+    const payload4 = createPayload(4, "00000000-0000-4000-8000-000000000004");
+    otherStore.save(payload4);
+
+    const payloads = store.loadOrphaned();
+    expect(payloads.map((p) => p.message_uuid)).toEqual([
+      payload2.message_uuid,
+      payload1.message_uuid,
+    ]);
+
+    const files = readdirSync(apitallyDir).sort();
+    expect(files).toEqual(
+      [
+        `${prefix}${process.pid}_${payload1.message_uuid}.json`,
+        `${prefix}${process.pid}_${payload2.message_uuid}.json`,
+        `${prefix}${process.ppid}_${payload3.message_uuid}.json`,
+        `${prefix}${process.pid}_${payload4.message_uuid}.json`,
+      ].sort(),
+    );
+
+    // Claimed payloads are deleted once delivered
+    payloads.forEach((payload) => store.delete(payload));
+    expect(readdirSync(apitallyDir)).toHaveLength(2);
+  });
+
+  it("Load payloads from an earlier process with the same PID", () => {
+    const store = new SyncDataStore(CLIENT_ID, ENV);
+    const prefix = store["prefix"];
+    const apitallyDir = join(tempDir, "apitally");
+
+    // E.g. left behind by PID 1 before the container restarted
+    const payload1 = createPayload(1, "00000000-0000-4000-8000-000000000001");
+    mkdirSync(apitallyDir, { recursive: true });
+    writeFileSync(
+      join(
+        apitallyDir,
+        `${prefix}${process.pid}_${payload1.message_uuid}.json`,
+      ),
+      JSON.stringify(payload1),
+    );
+
+    // Payloads queued in this process are still left alone
+    const payload2 = createPayload(2, "00000000-0000-4000-8000-000000000002");
+    store.save(payload2);
+
+    const payloads = store.loadOrphaned();
+    expect(payloads.map((p) => p.message_uuid)).toEqual([
+      payload1.message_uuid,
+    ]);
+    // Claimed payloads aren't claimed again by another client instance
+    expect(new SyncDataStore(CLIENT_ID, ENV).loadOrphaned()).toEqual([]);
+
+    payloads.forEach((payload) => store.delete(payload));
+    store.delete(payload2);
+    expect(readdirSync(apitallyDir)).toHaveLength(0);
+  });
+});
@@ -0,0 +1,119 @@
+import nock from "nock";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+import HubTransport from "../../src/common/transport.js";
+import { APITALLY_HUB_BASE_URL, CLIENT_ID, ENV } from "../utils.js";
+
+describe("Hub transport", () => {
+  let transport: HubTransport;
+  let context: any;
+
+  beforeEach(() => {
+    transport = new HubTransport();
+    context = {
+      clientId: CLIENT_ID,
+      env: ENV,
+      logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+      disable: vi.fn(),
+      suspendLogging: vi.fn(),
+    };
+    transport.init(context);
+  });
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("Disable client if client ID is invalid", async () => {
+    nock(APITALLY_HUB_BASE_URL)
+      .post(`/v2/${CLIENT_ID}/${ENV}/sync`)
+      .reply(404, `Client ID '${CLIENT_ID}' not found`);
+
+    await expect(transport.sendSyncData({} as any)).resolves.toBe("rejected");
+    expect(context.disable).toHaveBeenCalledOnce();
+    expect(context.logger.error).toHaveBeenCalledOnce();
+  });
+
+  it("Report rejected and delivered payloads", async () => {
+    nock(APITALLY_HUB_BASE_URL)
+      .post(`/v2/${CLIENT_ID}/${ENV}/sync`)
+      .reply(422)
+      .post(`/v2/${CLIENT_ID}/${ENV}/sync`)
+      .reply(202);
+
+    await expect(transport.sendSyncData({} as any)).resolves.toBe("rejected");
+    expect(context.disable).not.toHaveBeenCalled();
+    await expect(transport.sendSyncData({} as any)).resolves.toBe("delivered");
+  });
+
+  it("Suspend logging if Retry-After header is set", async () => {
+    nock(APITALLY_HUB_BASE_URL)
+      .post(`/v2/${CLIENT_ID}/${ENV}/log`)
+      .query({ uuid: "test" })
+      .reply(402, "", { "Retry-After": "60" });
+
+    await transport.sendLogData("test", Buffer.from("test"));
+    expect(context.suspendLogging).toHaveBeenCalledOnce();
+    expect(context.suspendLogging.mock.calls[0][0]).toBeGreaterThan(Date.now());
+  });
+
+  it("Throw error on unexpected response", async () => {
+    nock(APITALLY_HUB_BASE_URL)
+      .post(`/v2/${CLIENT_ID}/${ENV}/startup`)
+      .reply(400);
+
+    await expect(transport.sendStartupData({} as any)).rejects.toThrow(
+      "status code 400",
+    );
+  });
+});
+
+describe("Hub transport with compression", () => {
+  const context = {
+    clientId: CLIENT_ID,
+    env: ENV,
+    logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+    disable: vi.fn(),
+    suspendLogging: vi.fn(),
+  };
+
+  afterEach(() => {
+    nock.cleanAll();
+  });
+
+  it("Compress payloads above threshold", async () => {
+    const transport = new HubTransport({ enabled: true, threshold: 100 });
+    transport.init(context);
+
+    let receivedEncoding: string | undefined;
+    let receivedBody: any;
+    nock(APITALLY_HUB_BASE_URL)
+      .post(`/v2/${CLIENT_ID}/${ENV}/sync`)
+      .reply(function (_, body) {
+        receivedEncoding = this.req.headers["content-encoding"];
+        receivedBody = body;
+        return [202];
+      });
+
+    const payload = { requests: Array(10).fill({ path: "/test" }) };
+    await transport.sendSyncData(payload as any);
+    expect(receivedEncoding).toBe("gzip");
+    expect(receivedBody).toEqual(payload); // decompressed by nock
+  });
+
+  it("Skip compression below threshold", async () => {
+    const transport = new HubTransport({ enabled: true, encoding: "br" });
+    transport.init(context);
+
+    let receivedEncoding: string | undefined;
+    nock(APITALLY_HUB_BASE_URL)
+      .post(`/v2/${CLIENT_ID}/${ENV}/startup`)
+      .reply(function () {
+        receivedEncoding = this.req.headers["content-encoding"];
+        return [202];
+      });
+
+    await transport.sendStartupData({ paths: [] } as any);
+    expect(receivedEncoding).toBeUndefined();
+  });
+});
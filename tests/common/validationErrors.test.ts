@@ -0,0 +1,221 @@
+import { describe, expect, it } from "vitest";
+
+import ValidationErrorCounter from "../../src/common/validationErrorCounter.js";
+import { extractValidationErrors } from "../../src/common/validationErrors.js";
+
+describe("Validation errors", () => {
+  it("Zod", () => {
+    const errors = extractValidationErrors({
+      success: false,
+      error: {
+        name: "ZodError",
+        issues: [
+          {
+            code: "too_small",
+            minimum: 18,
+            path: ["age"],
+            message: "Number must be greater than or equal to 18",
+          },
+        ],
+      },
+    });
+    expect(errors).toEqual([
+      {
+        loc: "age",
+        msg: "Number must be greater than or equal to 18",
+        type: "too_small",
+      },
+    ]);
+  });
+
+  it("Valibot", () => {
+    const errors = extractValidationErrors({
+      issues: [
+        {
+          kind: "validation",
+          type: "min_length",
+          message: "Invalid length",
+          path: [{ type: "object", key: "user" }, { key: "name" }],
+        },
+      ],
+    });
+    expect(errors).toEqual([
+      { loc: "user.name", msg: "Invalid length", type: "min_length" },
+    ]);
+  });
+
+  it("Yup", () => {
+    const errors = extractValidationErrors({
+      name: "ValidationError",
+      errors: ["name is a required field", "age must be a number"],
+      inner: [
+        {
+          name: "ValidationError",
+          path: "name",
+          type: "required",
+          message: "name is a required field",
+        },
+        {
+          name: "ValidationError",
+          path: "age",
+          type: "typeError",
+          message: "age must be a number",
+        },
+      ],
+    });
+    expect(errors).toEqual([
+      { loc: "name", msg: "name is a required field", type: "required" },
+      { loc: "age", msg: "age must be a number", type: "typeError" },
+    ]);
+  });
+
+  it("Joi", () => {
+    const errors = extractValidationErrors({
+      details: [
+        {
+          message: '"age" must be greater than or equal to 18',
+          path: ["age"],
+          type: "number.min",
+        },
+      ],
+    });
+    expect(errors).toEqual([
+      {
+        loc: "age",
+        msg: '"age" must be greater than or equal to 18',
+        type: "number.min",
+      },
+    ]);
+  });
+
+  it("Celebrate", () => {
+    const errors = extractValidationErrors({
+      statusCode: 400,
+      error: "Bad Request",
+      message: "Validation failed",
+      validation: {
+        query: {
+          source: "query",
+          keys: ["name", "age"],
+          message:
+            '"name" length must be at least 2 characters long. "age" must be greater than or equal to 18',
+        },
+      },
+    });
+    expect(errors).toEqual([
+      {
+        loc: "query.name",
+        msg: '"name" length must be at least 2 characters long',
+        type: "",
+      },
+      {
+        loc: "query.age",
+        msg: '"age" must be greater than or equal to 18',
+        type: "",
+      },
+    ]);
+  });
+
+  it("express-validator", () => {
+    const errors = extractValidationErrors({
+      errors: [
+        {
+          type: "field",
+          location: "query",
+          path: "age",
+          msg: "Invalid value",
+          value: "17",
+        },
+      ],
+    });
+    expect(errors).toEqual([
+      { loc: "query.age", msg: "Invalid value", type: "field" },
+    ]);
+  });
+
+  it("AJV", () => {
+    let errors = extractValidationErrors([
+      {
+        instancePath: "/user/age",
+        keyword: "minimum",
+        message: "must be >= 18",
+      },
+    ]);
+    expect(errors).toEqual([
+      { loc: "user.age", msg: "must be >= 18", type: "minimum" },
+    ]);
+
+    // Fastify formats the errors as a single message
+    errors = extractValidationErrors(
+      JSON.stringify({
+        statusCode: 400,
+        code: "FST_ERR_VALIDATION",
+        error: "Bad Request",
+        message:
+          "querystring/name must NOT have fewer than 2 characters, querystring/age must be >= 18",
+      }),
+    );
+    expect(errors).toEqual([
+      {
+        loc: "query.name",
+        msg: "querystring/name must NOT have fewer than 2 characters",
+        type: "",
+      },
+      { loc: "query.age", msg: "querystring/age must be >= 18", type: "" },
+    ]);
+  });
+
+  it("class-validator", () => {
+    const errors = extractValidationErrors(
+      Buffer.from(
+        JSON.stringify({
+          statusCode: 400,
+          error: "Bad Request",
+          message: ["age must not be less than 18"],
+        }),
+      ),
+    );
+    expect(errors).toEqual([
+      { loc: "", msg: "age must not be less than 18", type: "" },
+    ]);
+  });
+
+  it("Unknown format", () => {
+    expect(extractValidationErrors({ message: "Bad Request" })).toEqual([]);
+    expect(extractValidationErrors("not json")).toEqual([]);
+    expect(extractValidationErrors(null)).toEqual([]);
+  });
+
+  it("Custom extractors", () => {
+    const counter = new ValidationErrorCounter(undefined, [
+      (body) =>
+        Array.isArray(body.problems)
+          ? body.problems.map((problem: any) => ({
+              loc: problem.field,
+              msg: problem.detail,
+              type: problem.code,
+            }))
+          : [],
+      () => {
+        throw new Error("test");
+      },
+    ]);
+    const requestInfo = { method: "POST", path: "/items" };
+
+    counter.addValidationErrorsFromBody(requestInfo, {
+      problems: [{ field: "name", detail: "Too short", code: "min_length" }],
+    });
+    // Built-in extractors are still used for other formats
+    counter.addValidationErrorsFromBody(requestInfo, {
+      errors: [
+        { type: "field", location: "body", path: "age", msg: "Invalid" },
+      ],
+    });
+
+    const validationErrors = counter.getAndResetValidationErrors();
+    expect(validationErrors.length).toBe(2);
+    expect(validationErrors[0].loc).toEqual(["name"]);
+    expect(validationErrors[0].type).toBe("min_length");
+    expect(validationErrors[1].loc).toEqual(["body", "age"]);
+  });
+});
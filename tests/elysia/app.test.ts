@@ -3,7 +3,12 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { ApitallyClient } from "../../src/common/client.js";
 import { getAppInfo } from "../../src/elysia/utils.js";
-import { mockApitallyHub, setupOtel, teardownOtel } from "../utils.js";
+import {
+  expectAbortedRequest,
+  mockApitallyHub,
+  setupOtel,
+  teardownOtel,
+} from "../utils.js";
 import { getApp } from "./app.js";
 
 describe("Plugin for Elysia", () => {
@@ -237,6 +242,26 @@ describe("Plugin for Elysia", () => {
     expect(traceId).toMatch(/^[0-9a-f]{32}$/);
   });
 
+  it("Aborted request", async () => {
+    const controller = new AbortController();
+    const resPromise = app.handle(
+      new Request("http://localhost/slow", { signal: controller.signal }),
+    );
+    await expectAbortedRequest(
+      client,
+      "/slow",
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        controller.abort();
+        await setImmediate();
+      },
+      async () => {
+        await (await resPromise).text();
+        await setImmediate();
+      },
+    );
+  });
+
   it("List endpoints", async () => {
     // @ts-expect-error app has complex type
     const appInfo = getAppInfo(app);
@@ -263,6 +288,10 @@ describe("Plugin for Elysia", () => {
         method: "GET",
         path: "/traces",
       },
+      {
+        method: "GET",
+        path: "/slow",
+      },
     ]);
   });
 
@@ -71,6 +71,10 @@ export const getApp = () => {
         outerSpan.end();
       });
       return "traces";
+    })
+    .get("/slow", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      return "slow";
     });
 
   return app;
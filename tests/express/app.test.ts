@@ -4,7 +4,12 @@ import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { ApitallyClient } from "../../src/common/client.js";
 import { getRouterInfo } from "../../src/express/utils.js";
-import { mockApitallyHub, setupOtel, teardownOtel } from "../utils.js";
+import {
+  expectAbortedRequest,
+  mockApitallyHub,
+  setupOtel,
+  teardownOtel,
+} from "../utils.js";
 import {
   getAppWithCelebrate,
   getAppWithMiddlewareOnRouter,
@@ -59,7 +64,8 @@ testCases.forEach(({ name, getApp }) => {
             r.status_code === 200 &&
             r.request_size_sum === 0 &&
             r.response_size_sum > 0 &&
-            r.consumer === "test",
+            r.consumer === "test" &&
+            r.tags?.region === "eu",
         ),
       ).toBe(true);
       expect(
@@ -314,6 +320,29 @@ describe("Middleware for Express with multiple paths", () => {
     ).toBe(true);
   });
 
+  it("Aborted request", async () => {
+    await expectAbortedRequest(
+      client,
+      "/slow",
+      async () => {
+        await expect(appTest.get("/slow").timeout(100)).rejects.toThrow();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      },
+      () => new Promise((resolve) => setTimeout(resolve, 500)),
+    );
+  });
+
+  it("Prometheus metrics", async () => {
+    await appTest.get("/users/123").expect(200);
+
+    const res = await appTest.get("/metrics").expect(200);
+    expect(res.headers["content-type"]).toContain("version=0.0.4");
+    expect(res.text).toContain(
+      'apitally_requests_total{consumer="",method="GET",path="/users/:id",status_code="200"} 1',
+    );
+    expect(client.requestCounter.getRequests().length).toBe(2);
+  });
+
   afterEach(async () => {
     if (client) {
       await client.handleShutdown();
@@ -6,7 +6,12 @@ import { body, query, validationResult } from "express-validator";
 import { pinoHttp } from "pino-http";
 import winston from "winston";
 
-import { setConsumer, useApitally } from "../../src/express/index.js";
+import {
+  prometheusHandler,
+  setConsumer,
+  setRequestTags,
+  useApitally,
+} from "../../src/express/index.js";
 import { CLIENT_ID, ENV } from "../utils.js";
 
 const winstonLogger = winston.createLogger({
@@ -53,6 +58,7 @@ export const getAppWithCelebrate = () => {
     ),
     (req: Request, res) => {
       setConsumer(req, "test");
+      setRequestTags(req, { region: "eu" });
       console.warn("Console test");
       req.log.info("Pino test");
       winstonLogger.info("Winston test");
@@ -124,6 +130,7 @@ export const getAppWithValidator = () => {
     query("age").isInt({ min: 18 }),
     (req: Request, res) => {
       setConsumer(req, "test");
+      setRequestTags(req, { region: "eu" });
       console.warn("Console test");
       req.log.info("Pino test");
       winstonLogger.info("Winston test");
@@ -230,6 +237,13 @@ export const getAppWithMultiplePaths = () => {
     res.send("user");
   });
 
+  app.get("/metrics", prometheusHandler());
+
+  app.get("/slow", async (req, res) => {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    res.send("slow");
+  });
+
   return app;
 };
 
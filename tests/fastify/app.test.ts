@@ -3,7 +3,12 @@ import request from "supertest";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { ApitallyClient } from "../../src/common/client.js";
-import { mockApitallyHub, setupOtel, teardownOtel } from "../utils.js";
+import {
+  expectAbortedRequest,
+  mockApitallyHub,
+  setupOtel,
+  teardownOtel,
+} from "../utils.js";
 import { getApp } from "./app.js";
 
 describe("Plugin for Fastify", () => {
@@ -18,6 +23,8 @@ describe("Plugin for Fastify", () => {
     client = ApitallyClient.getInstance();
     setupOtel();
     await app.ready();
+    // The first sync resets the counters once the client is initialized
+    await client["initPromise"];
 
     // Wait for 0.2 seconds for startup data to be set
     await new Promise((resolve) => setTimeout(resolve, 200));
@@ -191,9 +198,25 @@ describe("Plugin for Fastify", () => {
         method: "GET",
         path: "/traces",
       },
+      {
+        method: "GET",
+        path: "/slow",
+      },
     ]);
   });
 
+  it("Aborted request", async () => {
+    await expectAbortedRequest(
+      client,
+      "/slow",
+      async () => {
+        await expect(appTest.get("/slow").timeout(100)).rejects.toThrow();
+        await new Promise((resolve) => setTimeout(resolve, 50));
+      },
+      () => new Promise((resolve) => setTimeout(resolve, 500)),
+    );
+  });
+
   afterEach(async () => {
     if (client) {
       await client.handleShutdown();
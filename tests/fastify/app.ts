@@ -101,5 +101,10 @@ export const getApp = async () => {
     return "traces";
   });
 
+  app.get("/slow", async function () {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    return "slow";
+  });
+
   return app;
 };
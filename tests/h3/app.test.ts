@@ -3,7 +3,12 @@ import { setImmediate } from "node:timers/promises";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { ApitallyClient } from "../../src/common/client.js";
-import { mockApitallyHub, setupOtel, teardownOtel } from "../utils.js";
+import {
+  expectAbortedRequest,
+  mockApitallyHub,
+  setupOtel,
+  teardownOtel,
+} from "../utils.js";
 import { getApp } from "./app.js";
 
 describe("Middleware for H3", () => {
@@ -227,6 +232,24 @@ describe("Middleware for H3", () => {
     expect(traceId).toMatch(/^[0-9a-f]{32}$/);
   });
 
+  it("Aborted request", async () => {
+    const controller = new AbortController();
+    const resPromise = app.request("/v2/slow", { signal: controller.signal });
+    await expectAbortedRequest(
+      client,
+      "/v2/slow",
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        controller.abort();
+        await setImmediate();
+      },
+      async () => {
+        await (await resPromise).text();
+        await setImmediate();
+      },
+    );
+  });
+
   it("List endpoints", async () => {
     expect(client.startupData?.paths).toEqual([
       {
@@ -249,6 +272,10 @@ describe("Middleware for H3", () => {
         method: "GET",
         path: "/v2/traces",
       },
+      {
+        method: "GET",
+        path: "/v2/slow",
+      },
     ]);
   });
 
@@ -102,6 +102,14 @@ export const getApp = async () => {
     }),
   );
 
+  nestedApp2.get(
+    "/slow",
+    defineEventHandler(async () => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      return "slow";
+    }),
+  );
+
   app.mount("/v1", nestedApp1);
   app.mount("/v2", nestedApp2);
 
@@ -3,7 +3,12 @@ import { setImmediate } from "node:timers/promises";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { ApitallyClient } from "../../src/common/client.js";
-import { mockApitallyHub, setupOtel, teardownOtel } from "../utils.js";
+import {
+  expectAbortedRequest,
+  mockApitallyHub,
+  setupOtel,
+  teardownOtel,
+} from "../utils.js";
 import { getApp, getNestedApp } from "./app.js";
 
 describe("Middleware for Hono", () => {
@@ -247,6 +252,41 @@ describe("Middleware for Hono", () => {
     expect(traceId).toMatch(/^[0-9a-f]{32}$/);
   });
 
+  it("Aborted request", async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expectAbortedRequest(
+      client,
+      "/hello",
+      async () => {
+        const res = await app.request("/hello?name=John&age=20", {
+          signal: controller.signal,
+        });
+        await res.text();
+        await setImmediate();
+      },
+      () => setImmediate(),
+    );
+  });
+
+  it("Request aborted while being handled", async () => {
+    const controller = new AbortController();
+    const resPromise = app.request("/slow", { signal: controller.signal });
+    await expectAbortedRequest(
+      client,
+      "/slow",
+      async () => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        controller.abort();
+        await setImmediate();
+      },
+      async () => {
+        await (await resPromise).text();
+        await setImmediate();
+      },
+    );
+  });
+
   it("List endpoints", async () => {
     expect(client.startupData?.paths).toEqual([
       {
@@ -273,6 +313,10 @@ describe("Middleware for Hono", () => {
         method: "GET",
         path: "/traces",
       },
+      {
+        method: "GET",
+        path: "/slow",
+      },
     ]);
   });
 
@@ -84,6 +84,11 @@ export const getApp = async () => {
     return c.text("traces");
   });
 
+  app.get("/slow", async (c) => {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    return c.text("slow");
+  });
+
   return app;
 };
 
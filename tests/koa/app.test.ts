@@ -4,7 +4,12 @@ import request from "supertest";
 import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
 
 import { ApitallyClient } from "../../src/common/client.js";
-import { mockApitallyHub, setupOtel, teardownOtel } from "../utils.js";
+import {
+  expectAbortedRequest,
+  mockApitallyHub,
+  setupOtel,
+  teardownOtel,
+} from "../utils.js";
 import { getAppWithKoaRoute, getAppWithKoaRouter } from "./app.js";
 
 const testCases = [
@@ -162,6 +167,18 @@ testCases.forEach(({ name, router, getApp }) => {
       expect(traceId).toMatch(/^[0-9a-f]{32}$/);
     });
 
+    it("Aborted request", async () => {
+      await expectAbortedRequest(
+        client,
+        "/slow",
+        async () => {
+          await expect(appTest.get("/slow").timeout(100)).rejects.toThrow();
+          await new Promise((resolve) => setTimeout(resolve, 50));
+        },
+        () => new Promise((resolve) => setTimeout(resolve, 500)),
+      );
+    });
+
     if (router === "koa-router") {
       it("List endpoints", async () => {
         expect(client.startupData?.paths).toEqual([
@@ -185,6 +202,10 @@ testCases.forEach(({ name, router, getApp }) => {
             method: "GET",
             path: "/traces",
           },
+          {
+            method: "GET",
+            path: "/slow",
+          },
         ]);
       });
     }
@@ -60,6 +60,10 @@ export const getAppWithKoaRouter = () => {
     });
     ctx.body = "traces";
   });
+  router.get("/slow", async (ctx) => {
+    await new Promise((resolve) => setTimeout(resolve, 500));
+    ctx.body = "slow";
+  });
 
   app.use(bodyParser());
   app.use(router.routes());
@@ -120,6 +124,12 @@ export const getAppWithKoaRoute = () => {
       ctx.body = "traces";
     }),
   );
+  app.use(
+    route.get("/slow", async (ctx) => {
+      await new Promise((resolve) => setTimeout(resolve, 500));
+      ctx.body = "slow";
+    }),
+  );
 
   return app;
 };
@@ -6,9 +6,11 @@ import { patchConsole } from "../../src/loggers/index.js";
 
 describe("Console logger", () => {
   const logsContext = new AsyncLocalStorage<LogRecord[]>();
+  const otherLogsContext = new AsyncLocalStorage<LogRecord[]>();
 
   beforeAll(() => {
     patchConsole(logsContext);
+    patchConsole(otherLogsContext);
   });
 
   it("Log formatting", () => {
@@ -28,4 +30,16 @@ describe("Console logger", () => {
       expect(logs![2].message).toBe("test 1 2 3");
     });
   });
+
+  it("Multiple logs contexts", () => {
+    logsContext.run([], () => {
+      console.log("test 1");
+      expect(logsContext.getStore()).toHaveLength(1);
+    });
+    otherLogsContext.run([], () => {
+      console.log("test 2");
+      expect(otherLogsContext.getStore()).toHaveLength(1);
+      expect(otherLogsContext.getStore()![0].message).toBe("test 2");
+    });
+  });
 });
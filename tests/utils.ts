@@ -5,8 +5,11 @@ import {
   SpanProcessor,
 } from "@opentelemetry/sdk-trace-base";
 import nock from "nock";
+import { expect, vi } from "vitest";
 
+import type { ApitallyClient } from "../src/common/client.js";
 import { ApitallySpanProcessor } from "../src/common/spanCollector.js";
+import type { ApitallyTransport } from "../src/common/types.js";
 
 export const APITALLY_HUB_BASE_URL = "https://hub.apitally.io";
 export const CLIENT_ID = "fa4f144d-33be-4694-95e4-f5c18b0f151d";
@@ -19,6 +22,52 @@ export const mockApitallyHub = () => {
     .reply(202);
 };
 
+export const createMockTransport = () => ({
+  init: vi.fn<NonNullable<ApitallyTransport["init"]>>(),
+  sendStartupData: vi.fn<ApitallyTransport["sendStartupData"]>(
+    async () => "delivered",
+  ),
+  sendSyncData: vi.fn<ApitallyTransport["sendSyncData"]>(
+    async () => "delivered",
+  ),
+  sendLogData: vi.fn<ApitallyTransport["sendLogData"]>(async () => {}),
+});
+
+/**
+ * Checks that a request aborted by the client is counted and logged once with
+ * status code 499, and that nothing more is recorded once the handler is done.
+ */
+export const expectAbortedRequest = async (
+  client: ApitallyClient,
+  path: string,
+  abortRequest: () => Promise<unknown>,
+  waitForHandler: () => Promise<unknown>,
+) => {
+  const spy = vi.spyOn(client.requestLogger, "logRequest");
+  try {
+    await abortRequest();
+
+    const requests = client.requestCounter.getAndResetRequests();
+    expect(requests).toHaveLength(1);
+    expect(requests[0].path).toBe(path);
+    expect(requests[0].status_code).toBe(499);
+    expect(requests[0].request_count).toBe(1);
+
+    expect(spy).toHaveBeenCalledOnce();
+    const [, response] = spy.mock.calls[0];
+    expect(response.statusCode).toBe(499);
+    expect(response.aborted).toBe(true);
+    expect(response.responseTime).toBeLessThan(0.5);
+
+    // The response sent by the handler after the abort is neither counted nor logged
+    await waitForHandler();
+    expect(client.requestCounter.getAndResetRequests()).toHaveLength(0);
+    expect(spy).toHaveBeenCalledOnce();
+  } finally {
+    spy.mockRestore();
+  }
+};
+
 export const setupOtel = (spanProcessor?: SpanProcessor) => {
   const contextManager = new AsyncLocalStorageContextManager();
   context.setGlobalContextManager(contextManager);
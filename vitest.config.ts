@@ -4,6 +4,12 @@ import { defineConfig } from "vitest/config";
 export default defineConfig({
   plugins: [swc.vite(), swc.rollup()],
   test: {
+    server: {
+      deps: {
+        // Config files are loaded with a native dynamic import
+        external: [/apitally\.config\.js$/],
+      },
+    },
     coverage: {
       enabled: true,
       include: ["src/**/*"],